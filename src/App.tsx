@@ -11,6 +11,7 @@ function App() {
     oklch: OKLCHColor;
     xy: xyColor;
     colorSpace: ColorSpace;
+    alpha: number;
     cssColor: string;
   } | null>(null);
 
@@ -21,6 +22,7 @@ function App() {
     oklch: OKLCHColor;
     xy: xyColor;
     colorSpace: ColorSpace;
+    alpha: number;
     cssColor: string;
   }) => {
     setSelectedColor(color);
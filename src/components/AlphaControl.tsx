@@ -0,0 +1,24 @@
+import { Slider } from '@/components/ui/slider';
+
+interface AlphaControlProps {
+  alpha: number; // 0-1
+  onAlphaChange: (alpha: number) => void;
+}
+
+export default function AlphaControl({ alpha, onAlphaChange }: AlphaControlProps) {
+  return (
+    <div className="w-full max-w-md space-y-2">
+      <label className="text-sm font-medium text-gray-700">
+        Alpha: {alpha.toFixed(2)} ({Math.round(alpha * 100)}%)
+      </label>
+      <Slider
+        value={[alpha]}
+        onValueChange={(value) => onAlphaChange(value[0])}
+        max={1}
+        min={0}
+        step={0.01}
+        className="w-full"
+      />
+    </div>
+  );
+}
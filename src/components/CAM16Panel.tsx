@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import NumberInput from '@/components/NumberInput';
+import { XYZColor } from '@/utils/colorConversions';
+import {
+  CAM16Surround,
+  CAM16ViewingConditions,
+  CAM16Environment,
+  XYZToCAM16,
+  CAM16ToXYZ
+} from '@/utils/cam16';
+import { IlluminantName, ILLUMINANT_NAMES, STANDARD_ILLUMINANTS, getIlluminantXYZ } from '@/utils/illuminants';
+
+interface CAM16PanelProps {
+  xyz: XYZColor;
+  conditions: CAM16ViewingConditions;
+  environment: CAM16Environment;
+  onConditionsChange: (conditions: CAM16ViewingConditions) => void;
+  onChange: (xyz: XYZColor) => void;
+}
+
+const SURROUNDS: { value: CAM16Surround; label: string }[] = [
+  { value: 'average', label: 'Average' },
+  { value: 'dim', label: 'Dim' },
+  { value: 'dark', label: 'Dark' }
+];
+
+const JCH_CHANNELS = ['J', 'C', 'h'] as const;
+
+export default function CAM16Panel({
+  xyz,
+  conditions,
+  environment,
+  onConditionsChange,
+  onChange
+}: CAM16PanelProps) {
+  const [illuminant, setIlluminant] = useState<IlluminantName>('D65');
+  const cam = XYZToCAM16(xyz, environment);
+  const formattedJCh = JCH_CHANNELS.map((key) => cam[key].toFixed(2));
+  const [draft, setDraft] = useState<string[]>(formattedJCh);
+
+  // Reset the draft whenever the color or viewing conditions change
+  useEffect(() => {
+    const current = XYZToCAM16(xyz, environment);
+    setDraft(JCH_CHANNELS.map((key) => current[key].toFixed(2)));
+  }, [xyz, environment]);
+
+  // Apply the JCh draft through the inverse model; an untouched draft leaves the color alone
+  const commit = () => {
+    if (draft.every((value, index) => value === formattedJCh[index])) return;
+
+    // A cleared field is not zero
+    const [J, C, h] = draft.map((value) => (value.trim() ? Number(value) : NaN));
+    if (![J, C, h].every(Number.isFinite)) {
+      setDraft(formattedJCh);
+      return;
+    }
+    try {
+      onChange(CAM16ToXYZ({ J, C, h }, environment));
+    } catch (error) {
+      console.error('Error converting from CAM16:', error);
+    }
+  };
+
+  const correlates = [
+    { label: 'J', value: cam.J },
+    { label: 'C', value: cam.C },
+    { label: 'h', value: cam.h },
+    { label: 'M', value: cam.M },
+    { label: 's', value: cam.s },
+    { label: 'Q', value: cam.Q }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm text-gray-700">CAM16 Appearance</h4>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {correlates.map(({ label, value }) => (
+          <div key={label} className="text-center">
+            <div className="font-mono text-xs text-gray-600">{label}</div>
+            <div className="font-mono">{value.toFixed(label === 'h' ? 1 : 2)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {JCH_CHANNELS.map((channel, index) => (
+          <Input
+            key={channel}
+            className="h-8 font-mono text-center"
+            inputMode="decimal"
+            aria-label={`CAM16 ${channel}`}
+            value={draft[index]}
+            onChange={(e) => {
+              const next = [...draft];
+              next[index] = e.target.value;
+              setDraft(next);
+            }}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <div className="text-xs text-gray-600">Adapting luminance La (cd/m²)</div>
+          <NumberInput
+            className="h-8 font-mono"
+            aria-label="Adapting luminance"
+            value={Number(conditions.adaptingLuminance.toFixed(2))}
+            isValid={(value) => value > 0}
+            onCommit={(value) => onConditionsChange({ ...conditions, adaptingLuminance: value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <div className="text-xs text-gray-600">Background Yb</div>
+          <NumberInput
+            className="h-8 font-mono"
+            aria-label="Background luminance"
+            value={conditions.backgroundLuminance}
+            isValid={(value) => value > 0 && value <= 100}
+            onCommit={(value) => onConditionsChange({ ...conditions, backgroundLuminance: value })}
+          />
+        </div>
+        <Select
+          value={conditions.surround}
+          onValueChange={(value) => onConditionsChange({ ...conditions, surround: value as CAM16Surround })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SURROUNDS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label} surround
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={illuminant}
+          onValueChange={(value) => {
+            setIlluminant(value as IlluminantName);
+            onConditionsChange({ ...conditions, whitePoint: getIlluminantXYZ(value as IlluminantName) });
+          }}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ILLUMINANT_NAMES.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name} — {STANDARD_ILLUMINANTS[name].description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
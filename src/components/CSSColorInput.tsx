@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ParsedCSSColor, parseCSSColor } from '@/utils/cssColorParser';
+
+interface CSSColorInputProps {
+  onParse: (color: ParsedCSSColor) => void;
+}
+
+export default function CSSColorInput({ onParse }: CSSColorInputProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Parse the text and seed the picker with the result
+  const applyCSS = (source: string) => {
+    try {
+      onParse(parseCSSColor(source));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid CSS color');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm text-gray-700">From CSS</h4>
+      <div className="flex items-center gap-2">
+        <Input
+          className="font-mono text-sm"
+          placeholder="#663399, oklch(0.7 0.15 200), color(display-p3 1 0 0)…"
+          value={text}
+          aria-invalid={error !== null}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && applyCSS(text)}
+          onPaste={(e) => {
+            // Apply pasted text straight away when it replaces the whole field
+            const input = e.currentTarget;
+            if (input.selectionStart === 0 && input.selectionEnd === input.value.length) {
+              const pasted = e.clipboardData.getData('text');
+              e.preventDefault();
+              setText(pasted);
+              applyCSS(pasted);
+            }
+          }}
+        />
+        <Button size="sm" onClick={() => applyCSS(text)}>
+          Apply
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
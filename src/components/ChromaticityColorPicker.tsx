@@ -1,12 +1,43 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useId } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { Copy, Info, Palette, Zap } from 'lucide-react';
+import { Info, Palette, RotateCcw, Zap } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ColorModelEditor from '@/components/ColorModelEditor';
+import SpectralInput from '@/components/SpectralInput';
+import ColorTemperatureControls from '@/components/ColorTemperatureControls';
+import ColorDifferencePanel from '@/components/ColorDifferencePanel';
+import CAM16Panel from '@/components/CAM16Panel';
+import YCbCrPanel from '@/components/YCbCrPanel';
+import LuminanceControl from '@/components/LuminanceControl';
+import AlphaControl from '@/components/AlphaControl';
+import InfoSection from '@/components/InfoSection';
+import { useChromaticityImage, getFillResolution } from '@/hooks/use-chromaticity-image';
+import { useElementSize } from '@/hooks/use-element-size';
+import { useDevicePixelRatio } from '@/hooks/use-device-pixel-ratio';
+import CSSColorInput from '@/components/CSSColorInput';
+import ExportRow from '@/components/ExportRow';
+import {
+  DiagramMode,
+  DiagramPoint,
+  DiagramView,
+  DiagramViewport,
+  DIAGRAM_MODES,
+  xyToDiagram,
+  diagramToXY,
+  diagramToCanvas,
+  canvasToDiagram,
+  getDefaultDiagramView,
+  isDefaultDiagramView,
+  getDiagramTransform,
+  zoomDiagramView,
+  panDiagramView,
+  getTickStep,
+  getTickDecimals
+} from '@/utils/diagramCoordinates';
 import {
   XYZColor,
   xyColor,
@@ -15,23 +46,90 @@ import {
   OKLCHColor,
   HSLColor,
   ColorSpace,
+  ColorModel,
+  ColorModelValues,
   XYZToxyY,
   xyYToXYZ,
-  XYZToRGB,
-  RGBToXYZ,
+  xyToUVPrime,
   RGBToHSL,
-  XYZToLAB,
-  LABToOKLCH,
+  RGBToHSV,
+  RGBToHWB,
+  XYZToLUV,
+  LUVToLCHuv,
+  RGBToOkhsv,
+  RGBToOkhsl,
+  RGBToHSLuv,
+  LABReference,
+  XYZToReferenceLAB,
+  XYZToOKLab,
+  OKLabToOKLCH,
+  encodedRGBToXYZ,
+  XYZToEncodedRGB,
+  colorModelToXYZ,
   generateCSSColor,
-  isInGamut,
-  getColorTemperature,
-  CHROMATICITY_BOUNDARY,
-  SRGB_GAMUT,
-  P3_GAMUT,
-  REC2020_GAMUT,
-  D65_WHITE_POINT,
-  gammaCorrect
+  generateCSSLab,
+  generateCSSLCH,
+  formatAlpha,
+  RGBToHex,
+  compositeOver,
+  D65_WHITE_POINT
 } from '@/utils/colorConversions';
+import {
+  LOCUS_LABEL_WAVELENGTHS,
+  getSpectralLocus,
+  getChromaticityBoundary,
+  clampToSpectralLocus,
+  calculateDominantWavelength
+} from '@/utils/spectralLocus';
+import { StandardObserver, STANDARD_OBSERVERS } from '@/utils/colorMatchingFunctions';
+import { SpectralIntegrationResult } from '@/utils/spectral';
+import {
+  WhiteLocus,
+  PLANCKIAN_TICK_TEMPERATURES,
+  calculateCCT,
+  formatCCT,
+  getPlanckianLocus,
+  getIsotherm,
+  planckianChromaticity,
+  temperatureTintToXY
+} from '@/utils/colorTemperature';
+import { AdaptationMethod, ADAPTATION_METHODS } from '@/utils/chromaticAdaptation';
+import { getRGBColorSpace, getRGBColorSpaces, getGamutTriangle } from '@/utils/rgbColorSpaces';
+import {
+  PQ_MAX_LUMINANCE,
+  DEFAULT_SDR_REFERENCE_WHITE,
+  XYZToRec2100PQ,
+  XYZToRec2100HLG,
+  toCodeValues
+} from '@/utils/hdr';
+import { XYZToICtCp, XYZToJzazbz, JzazbzToJzCzhz } from '@/utils/hdrPerceptual';
+import { GamutMappingMethod, GAMUT_MAPPING_METHODS, mapToGamut, isXYZInGamut } from '@/utils/gamutMapping';
+import { ParsedCSSColor, parseCSSColor } from '@/utils/cssColorParser';
+import {
+  CAM16ViewingConditions,
+  DEFAULT_CAM16_VIEWING_CONDITIONS,
+  createCAM16Environment,
+  XYZToCAM16UCS
+} from '@/utils/cam16';
+import {
+  IlluminantName,
+  ILLUMINANT_NAMES,
+  STANDARD_ILLUMINANTS,
+  getIlluminantChromaticity,
+  getIlluminantXYZ
+} from '@/utils/illuminants';
+
+// Client coordinates to the canvas's own CSS pixels, measured inside its border
+function clientToCanvas(canvas: HTMLCanvasElement, clientX: number, clientY: number): DiagramPoint {
+  const rect = canvas.getBoundingClientRect();
+  return { x: clientX - rect.left - canvas.clientLeft, y: clientY - rect.top - canvas.clientTop };
+}
+
+// Checkerboard behind translucent swatches
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%)',
+  backgroundSize: '16px 16px'
+};
 
 interface ChromaticityColorPickerProps {
   onColorChange?: (color: {
@@ -41,35 +139,109 @@ interface ChromaticityColorPickerProps {
     oklch: OKLCHColor;
     xy: xyColor;
     colorSpace: ColorSpace;
+    alpha: number;
+    referenceWhite: IlluminantName;
+    observer: StandardObserver;
     cssColor: string;
   }) => void;
   initialColor?: RGBColor;
+  initialValue?: { model: ColorModel; values: ColorModelValues };
   initialColorSpace?: ColorSpace;
 }
 
 export default function ChromaticityColorPicker({
   onColorChange,
   initialColor = { r: 255, g: 100, b: 100 },
+  initialValue,
   initialColorSpace = 'sRGB'
 }: ChromaticityColorPickerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
   const [selectedColorSpace, setSelectedColorSpace] = useState<ColorSpace>(initialColorSpace);
-  const [currentColor, setCurrentColor] = useState<RGBColor>(initialColor);
+  const [gamutMapping, setGamutMapping] = useState<GamutMappingMethod>('oklch');
+  const [currentColor, setCurrentColor] = useState<RGBColor>(() =>
+    initialValue
+      ? mapToGamut(colorModelToXYZ(initialValue.model, initialValue.values, initialColorSpace), initialColorSpace, gamutMapping)
+      : initialColor
+  );
   const [currentXY, setCurrentXY] = useState<xyColor>(() => {
-    const xyz = RGBToXYZ(initialColor, selectedColorSpace);
+    const xyz = initialValue
+      ? colorModelToXYZ(initialValue.model, initialValue.values, initialColorSpace)
+      : encodedRGBToXYZ(initialColor, initialColorSpace);
     return XYZToxyY(xyz);
   });
-  const [luminance, setLuminance] = useState<number>(0.5);
+  const [alpha, setAlpha] = useState(initialColor.alpha ?? 1);
+  const [compositeBackground, setCompositeBackground] = useState('#ffffff');
+  const [luminance, setLuminance] = useState<number>(() =>
+    initialValue ? Math.max(0, Math.min(1, currentXY.Y)) : 0.5
+  );
+  const [absoluteLuminance, setAbsoluteLuminance] = useState(false);
+  const [sdrReferenceWhite, setSDRReferenceWhite] = useState(DEFAULT_SDR_REFERENCE_WHITE);
   const [showGamutOverlay, setShowGamutOverlay] = useState(true);
-  const [isDragging, setIsDragging] = useState(false);
+  const [showPlanckianLocus, setShowPlanckianLocus] = useState(true);
+  const [temperature, setTemperature] = useState(6500);
+  const [tint, setTint] = useState(0);
+  const [whiteLocus, setWhiteLocus] = useState<WhiteLocus>('planckian');
+  const [referenceWhite, setReferenceWhite] = useState<IlluminantName>('D65');
+  const [adaptationMethod, setAdaptationMethod] = useState<AdaptationMethod>('Bradford');
+  const [observer, setObserver] = useState<StandardObserver>('CIE1931_2');
+  const [diagramMode, setDiagramMode] = useState<DiagramMode>('xy');
+  const [diagramView, setDiagramView] = useState<DiagramView>(() => getDefaultDiagramView('xy'));
+  const [isPanning, setIsPanning] = useState(false);
+  const activePointersRef = useRef(new Map<number, DiagramPoint>());
+  const gestureRef = useRef<'pick' | 'pan' | 'pinch' | null>(null);
+  const diagramInstructionsId = useId();
+  const [referenceColor, setReferenceColor] = useState<XYZColor | null>(null);
+  const [cam16Conditions, setCAM16Conditions] = useState<CAM16ViewingConditions>(DEFAULT_CAM16_VIEWING_CONDITIONS);
+  // Chromaticity the picker was last moved to from a spectrum
+  const [spectralXY, setSpectralXY] = useState<{ x: number; y: number } | null>(null);
+
+  // Reference white used for LAB/LCH; RGB-derived XYZ is 2° colorimetry
+  const labReference = useMemo<LABReference>(() => ({
+    white: getIlluminantXYZ(referenceWhite),
+    method: adaptationMethod
+  }), [referenceWhite, adaptationMethod]);
 
-  // Canvas dimensions
-  const CANVAS_WIDTH = 400;
-  const CANVAS_HEIGHT = 400;
-  const DIAGRAM_SIZE = 350;
+  const cam16Environment = useMemo(() => createCAM16Environment(cam16Conditions), [cam16Conditions]);
+
+  // Canvas dimensions: a square filling the card width, in CSS pixels
+  const DEFAULT_CANVAS_SIZE = 400;
+  const MIN_CANVAS_SIZE = 240;
+  const MAX_CANVAS_SIZE = 800;
+  const CANVAS_BORDER = 1;
   const DIAGRAM_OFFSET_X = 25;
   const DIAGRAM_OFFSET_Y = 25;
 
+  const containerSize = useElementSize(canvasContainerRef);
+  const pixelRatio = useDevicePixelRatio();
+  const canvasSize = containerSize
+    ? Math.min(MAX_CANVAS_SIZE, Math.max(MIN_CANVAS_SIZE, Math.floor(containerSize.width) - 2 * CANVAS_BORDER))
+    : DEFAULT_CANVAS_SIZE;
+  const diagramSize = canvasSize - 2 * DIAGRAM_OFFSET_X;
+
+  const diagramViewport = useMemo<DiagramViewport>(() => ({
+    left: DIAGRAM_OFFSET_X,
+    top: DIAGRAM_OFFSET_Y,
+    size: diagramSize
+  }), [diagramSize]);
+
+  // Diagram axes run from 0 to the mode's extent across the plotting area, before zoom and pan
+  const diagramTransform = useMemo(
+    () => getDiagramTransform(diagramView, diagramViewport, diagramMode),
+    [diagramView, diagramViewport, diagramMode]
+  );
+  const isZoomed = !isDefaultDiagramView(diagramView, diagramMode);
+
+  // Per-pixel fill of the whole diagram, rendered off the main thread at about device resolution
+  // and placed for the current zoom and pan when drawn
+  const devicePixelSize = Math.round(canvasSize * pixelRatio);
+  const diagramImage = useChromaticityImage(
+    selectedColorSpace,
+    observer,
+    diagramMode,
+    getFillResolution(diagramSize * pixelRatio)
+  );
+
   // Draw chromaticity diagram
   const drawChromaticityDiagram = useCallback(() => {
     try {
@@ -79,24 +251,51 @@ export default function ChromaticityColorPicker({
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
+    // xy chromaticity -> canvas pixels in the current diagram mode
+    const project = (x: number, y: number) => diagramToCanvas(xyToDiagram(x, y, diagramMode), diagramTransform);
+
+    // Draw in CSS pixels onto the device-resolution backing store
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
     // Clear canvas
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.clearRect(0, 0, canvasSize, canvasSize);
 
     // Draw background gradient
-    const gradient = ctx.createLinearGradient(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const gradient = ctx.createLinearGradient(0, 0, canvasSize, canvasSize);
     gradient.addColorStop(0, '#f8fafc');
     gradient.addColorStop(1, '#e2e8f0');
     ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillRect(0, 0, canvasSize, canvasSize);
+
+    // Zoomed views clip to the plotting area; the full view leaves the margins for edge labels
+    ctx.save();
+    if (isZoomed) {
+      ctx.beginPath();
+      ctx.rect(DIAGRAM_OFFSET_X, DIAGRAM_OFFSET_Y, diagramSize, diagramSize);
+      ctx.clip();
+    }
+
+    // Fill the locus with the color at each chromaticity once it has been rendered,
+    // scaled from the fill's own resolution to the current view
+    if (diagramImage) {
+      const { bitmap, transform } = diagramImage;
+      const ratio = diagramTransform.scale / transform.scale;
+      ctx.drawImage(
+        bitmap,
+        diagramTransform.originX - transform.originX * ratio,
+        diagramTransform.originY - transform.originY * ratio,
+        bitmap.width * ratio,
+        bitmap.height * ratio
+      );
+    }
 
     // Draw chromaticity boundary
     ctx.beginPath();
     ctx.strokeStyle = '#334155';
     ctx.lineWidth = 2;
     
-    CHROMATICITY_BOUNDARY.forEach((point, index) => {
-      const x = DIAGRAM_OFFSET_X + point.x * DIAGRAM_SIZE;
-      const y = DIAGRAM_OFFSET_Y + (1 - point.y) * DIAGRAM_SIZE;
+    getChromaticityBoundary(observer).forEach((point, index) => {
+      const { x, y } = project(point.x, point.y);
       
       if (index === 0) {
         ctx.moveTo(x, y);
@@ -106,27 +305,51 @@ export default function ChromaticityColorPicker({
     });
     ctx.stroke();
 
-    // Fill chromaticity area with subtle color
-    ctx.fillStyle = 'rgba(59, 130, 246, 0.05)';
-    ctx.fill();
+    // Subtle placeholder fill until the image is ready
+    if (!diagramImage) {
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.05)';
+      ctx.fill();
+    }
+
+    // Label wavelengths along the spectral locus, pointing away from the white point
+    ctx.fillStyle = '#475569';
+    ctx.font = '9px Inter';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const locus = getSpectralLocus(observer);
+    LOCUS_LABEL_WAVELENGTHS.forEach((wavelength) => {
+      const point = locus.find((p) => p.wavelength === wavelength);
+      if (!point) return;
+
+      const { x, y } = project(point.x, point.y);
+      const white = project(D65_WHITE_POINT.x, D65_WHITE_POINT.y);
+      const dx = x - white.x;
+      const dy = y - white.y;
+      const length = Math.hypot(dx, dy) || 1;
+
+      ctx.beginPath();
+      ctx.arc(x, y, 1.5, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.fillText(`${wavelength}`, x + (dx / length) * 12, y + (dy / length) * 12);
+    });
+    ctx.textBaseline = 'alphabetic';
 
     // Draw gamut triangles if overlay is enabled
     if (showGamutOverlay) {
-      const gamuts = [
-        { points: SRGB_GAMUT, color: '#ef4444', label: 'sRGB' },
-        { points: P3_GAMUT, color: '#10b981', label: 'P3' },
-        { points: REC2020_GAMUT, color: '#8b5cf6', label: 'Rec2020' }
-      ];
+      const gamuts = getRGBColorSpaces().map(({ id, color }) => ({
+        points: getGamutTriangle(id),
+        color,
+        selected: id === selectedColorSpace
+      }));
 
-      gamuts.forEach(({ points, color, label }) => {
+      gamuts.forEach(({ points, color, selected }) => {
         ctx.beginPath();
         ctx.strokeStyle = color;
-        ctx.lineWidth = 2;
+        ctx.lineWidth = selected ? 2 : 1;
         ctx.setLineDash([5, 5]);
         
         points.forEach((point, index) => {
-          const x = DIAGRAM_OFFSET_X + point.x * DIAGRAM_SIZE;
-          const y = DIAGRAM_OFFSET_Y + (1 - point.y) * DIAGRAM_SIZE;
+          const { x, y } = project(point.x, point.y);
           
           if (index === 0) {
             ctx.moveTo(x, y);
@@ -136,50 +359,113 @@ export default function ChromaticityColorPicker({
         });
         ctx.stroke();
         
-        // Fill with transparent color
-        ctx.fillStyle = color + '20';
-        ctx.fill();
+        // Fill the selected space with transparent color
+        if (selected) {
+          ctx.fillStyle = color + '20';
+          ctx.fill();
+        }
         
         ctx.setLineDash([]);
       });
     }
 
-    // Draw grid lines
+    // Draw Planckian locus with isotherms and Kelvin ticks
+    if (showPlanckianLocus) {
+      ctx.beginPath();
+      ctx.strokeStyle = '#1e293b';
+      ctx.lineWidth = 1.5;
+      getPlanckianLocus(observer).forEach((point, index) => {
+        const { x, y } = project(point.x, point.y);
+
+        if (index === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+
+      ctx.strokeStyle = '#64748b';
+      ctx.fillStyle = '#334155';
+      ctx.lineWidth = 1;
+      ctx.font = '8px Inter';
+      ctx.textAlign = 'center';
+      PLANCKIAN_TICK_TEMPERATURES.forEach((temperature) => {
+        const [isothermLow, isothermHigh] = getIsotherm(temperature, 0.02, observer);
+        const low = project(isothermLow.x, isothermLow.y);
+        const high = project(isothermHigh.x, isothermHigh.y);
+        ctx.beginPath();
+        ctx.moveTo(low.x, low.y);
+        ctx.lineTo(high.x, high.y);
+        ctx.stroke();
+
+        const chromaticity = planckianChromaticity(temperature, observer);
+        const tick = project(chromaticity.x, chromaticity.y);
+        ctx.beginPath();
+        ctx.arc(tick.x, tick.y, 1.5, 0, 2 * Math.PI);
+        ctx.fill();
+
+        ctx.fillText(
+          temperature >= 10000 ? `${temperature / 1000}k` : `${temperature}`,
+          low.x,
+          low.y + 9
+        );
+      });
+    }
+
+    // Draw grid lines at a step that adapts to the zoom level
+    const visibleMin = canvasToDiagram({ x: DIAGRAM_OFFSET_X, y: DIAGRAM_OFFSET_Y + diagramSize }, diagramTransform);
+    const visibleMax = canvasToDiagram({ x: DIAGRAM_OFFSET_X + diagramSize, y: DIAGRAM_OFFSET_Y }, diagramTransform);
+    const tickStep = getTickStep(visibleMax.x - visibleMin.x);
+    const ticksFor = (min: number, max: number) => {
+      const ticks: number[] = [];
+      for (let i = Math.ceil(min / tickStep - 1e-9); i * tickStep <= max + 1e-9; i++) {
+        ticks.push(i * tickStep);
+      }
+      return ticks;
+    };
+    const ticksX = ticksFor(visibleMin.x, visibleMax.x);
+    const ticksY = ticksFor(visibleMin.y, visibleMax.y);
+
     ctx.strokeStyle = '#cbd5e1';
     ctx.lineWidth = 1;
     ctx.setLineDash([2, 2]);
     
-    for (let i = 0; i <= 10; i++) {
-      const x = DIAGRAM_OFFSET_X + (i / 10) * DIAGRAM_SIZE;
-      const y = DIAGRAM_OFFSET_Y + (i / 10) * DIAGRAM_SIZE;
-      
+    ticksX.forEach((tick) => {
+      const x = diagramTransform.originX + tick * diagramTransform.scale;
       ctx.beginPath();
       ctx.moveTo(x, DIAGRAM_OFFSET_Y);
-      ctx.lineTo(x, DIAGRAM_OFFSET_Y + DIAGRAM_SIZE);
+      ctx.lineTo(x, DIAGRAM_OFFSET_Y + diagramSize);
       ctx.stroke();
-      
+    });
+    ticksY.forEach((tick) => {
+      const y = diagramTransform.originY - tick * diagramTransform.scale;
       ctx.beginPath();
       ctx.moveTo(DIAGRAM_OFFSET_X, y);
-      ctx.lineTo(DIAGRAM_OFFSET_X + DIAGRAM_SIZE, y);
+      ctx.lineTo(DIAGRAM_OFFSET_X + diagramSize, y);
       ctx.stroke();
-    }
+    });
     ctx.setLineDash([]);
 
-    // Draw axes labels
-    ctx.fillStyle = '#475569';
-    ctx.font = '12px Inter';
-    ctx.textAlign = 'center';
-    ctx.fillText('x', DIAGRAM_OFFSET_X + DIAGRAM_SIZE / 2, CANVAS_HEIGHT - 5);
-    
-    ctx.save();
-    ctx.translate(10, DIAGRAM_OFFSET_Y + DIAGRAM_SIZE / 2);
-    ctx.rotate(-Math.PI / 2);
-    ctx.fillText('y', 0, 0);
-    ctx.restore();
+    // Draw the line from the white point through the selection to the locus
+    const whitePoint = getIlluminantChromaticity(referenceWhite, observer);
+    const dominant = calculateDominantWavelength(currentXY.x, currentXY.y, whitePoint, observer);
+    if (dominant) {
+      const start = dominant.complementaryPoint ?? whitePoint;
+      ctx.beginPath();
+      ctx.strokeStyle = '#0f172a';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      const from = project(start.x, start.y);
+      const to = project(dominant.boundaryPoint.x, dominant.boundaryPoint.y);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
 
     // Draw current color point
-    const currentX = DIAGRAM_OFFSET_X + currentXY.x * DIAGRAM_SIZE;
-    const currentY = DIAGRAM_OFFSET_Y + (1 - currentXY.y) * DIAGRAM_SIZE;
+    const { x: currentX, y: currentY } = project(currentXY.x, currentXY.y);
     
     // Outer ring
     ctx.beginPath();
@@ -200,8 +486,7 @@ export default function ChromaticityColorPicker({
     ctx.stroke();
 
     // Draw white point
-    const whiteX = DIAGRAM_OFFSET_X + D65_WHITE_POINT.x * DIAGRAM_SIZE;
-    const whiteY = DIAGRAM_OFFSET_Y + (1 - D65_WHITE_POINT.y) * DIAGRAM_SIZE;
+    const { x: whiteX, y: whiteY } = project(whitePoint.x, whitePoint.y);
     
     ctx.beginPath();
     ctx.arc(whiteX, whiteY, 4, 0, 2 * Math.PI);
@@ -211,98 +496,463 @@ export default function ChromaticityColorPicker({
     ctx.lineWidth = 1;
     ctx.stroke();
 
+    ctx.restore();
+
+    // Label the ticks just inside the bottom and left edges, skipping the shared corner
+    const tickDecimals = getTickDecimals(tickStep);
+    ctx.fillStyle = '#64748b';
+    ctx.font = '8px Inter';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ticksX.forEach((tick) => {
+      const x = diagramTransform.originX + tick * diagramTransform.scale;
+      if (x < DIAGRAM_OFFSET_X + 12 || x > DIAGRAM_OFFSET_X + diagramSize - 12) return;
+      ctx.fillText(tick.toFixed(tickDecimals), x, DIAGRAM_OFFSET_Y + diagramSize - 2);
+    });
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ticksY.forEach((tick) => {
+      const y = diagramTransform.originY - tick * diagramTransform.scale;
+      if (y < DIAGRAM_OFFSET_Y + 6 || y > DIAGRAM_OFFSET_Y + diagramSize - 12) return;
+      ctx.fillText(tick.toFixed(tickDecimals), DIAGRAM_OFFSET_X + 2, y);
+    });
+    ctx.textBaseline = 'alphabetic';
+
+    // Draw axes labels
+    ctx.fillStyle = '#475569';
+    ctx.font = '12px Inter';
+    ctx.textAlign = 'center';
+    const [horizontalAxis, verticalAxis] = DIAGRAM_MODES[diagramMode].axes;
+    ctx.fillText(horizontalAxis, DIAGRAM_OFFSET_X + diagramSize / 2, canvasSize - 5);
+    
+    ctx.save();
+    ctx.translate(10, DIAGRAM_OFFSET_Y + diagramSize / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(verticalAxis, 0, 0);
+    ctx.restore();
+
     } catch (error) {
       console.error('Error drawing chromaticity diagram:', error);
     }
-  }, [currentColor, currentXY, selectedColorSpace, showGamutOverlay]);
+  }, [canvasSize, diagramSize, pixelRatio, diagramImage, diagramMode, diagramTransform, isZoomed, currentColor, currentXY, selectedColorSpace, showGamutOverlay, showPlanckianLocus, referenceWhite, observer]);
+
+  // Move the picker to a chromaticity at the current luminance
+  const selectChromaticity = useCallback((x: number, y: number) => {
+    // Keep the point inside the spectral locus
+    const clamped = clampToSpectralLocus(x, y, getChromaticityBoundary(observer));
+
+    // Update current chromaticity
+    const newXY: xyColor = { x: clamped.x, y: clamped.y, Y: luminance };
+    setCurrentXY(newXY);
+
+    // Convert to RGB (with transfer function) and map into gamut
+    setCurrentColor(mapToGamut(xyYToXYZ(newXY), selectedColorSpace, gamutMapping));
+
+    return newXY;
+  }, [luminance, selectedColorSpace, gamutMapping, observer]);
+
+  // Select a chromaticity from the diagram, keeping the temperature controls in step near the locus
+  const pickChromaticity = useCallback((x: number, y: number) => {
+    const selected = selectChromaticity(x, y);
+    const cct = calculateCCT(selected.x, selected.y, observer);
+    if (cct.valid) {
+      setTemperature(cct.cct);
+      setTint(cct.duv);
+    }
+  }, [selectChromaticity, observer]);
 
-  // Handle canvas click/drag
-  const handleCanvasInteraction = useCallback((event: React.MouseEvent) => {
+  // Pick at a canvas position through the current diagram's coordinates
+  const handleCanvasPick = useCallback((point: DiagramPoint) => {
     try {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+      const chromaticity = diagramToXY(canvasToDiagram(point, diagramTransform), diagramMode);
+      pickChromaticity(chromaticity.x, chromaticity.y);
+    } catch (error) {
+      console.error('Error in canvas interaction:', error);
+    }
+  }, [pickChromaticity, diagramMode, diagramTransform]);
+
+  // Pointer down: one pointer picks (or pans with Shift), a second pointer turns it into a pinch.
+  // Capturing the pointer keeps the gesture alive when it leaves the canvas.
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
 
-      const rect = canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
+    const canvas = event.currentTarget;
+    canvas.setPointerCapture(event.pointerId);
+    const point = clientToCanvas(canvas, event.clientX, event.clientY);
+    activePointersRef.current.set(event.pointerId, point);
 
-      // Convert to chromaticity coordinates
-      const chromaticityX = (x - DIAGRAM_OFFSET_X) / DIAGRAM_SIZE;
-      const chromaticityY = 1 - (y - DIAGRAM_OFFSET_Y) / DIAGRAM_SIZE;
+    if (activePointersRef.current.size === 2) {
+      gestureRef.current = 'pinch';
+      setIsPanning(false);
+    } else if (activePointersRef.current.size === 1) {
+      gestureRef.current = event.shiftKey ? 'pan' : 'pick';
+      setIsPanning(event.shiftKey);
+      if (!event.shiftKey) handleCanvasPick(point);
+    }
+  }, [handleCanvasPick]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = activePointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+
+    const next = clientToCanvas(event.currentTarget, event.clientX, event.clientY);
+    pointers.set(event.pointerId, next);
+
+    switch (gestureRef.current) {
+      case 'pick':
+        handleCanvasPick(next);
+        break;
+      case 'pan':
+        setDiagramView((view) => panDiagramView(view, next.x - previous.x, next.y - previous.y, diagramViewport, diagramMode));
+        break;
+      case 'pinch': {
+        // Zoom by the change in finger spread and pan by the movement of their midpoint
+        const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1];
+        if (!other) break;
+        const before = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+        const after = { x: (next.x + other.x) / 2, y: (next.y + other.y) / 2 };
+        const factor = Math.hypot(next.x - other.x, next.y - other.y) /
+          (Math.hypot(previous.x - other.x, previous.y - other.y) || 1);
+        setDiagramView((view) => zoomDiagramView(
+          panDiagramView(view, after.x - before.x, after.y - before.y, diagramViewport, diagramMode),
+          factor,
+          after,
+          diagramViewport,
+          diagramMode
+        ));
+        break;
+      }
+    }
+  }, [handleCanvasPick, diagramViewport, diagramMode]);
 
-      // Clamp to valid range
-      const clampedX = Math.max(0, Math.min(1, chromaticityX));
-      const clampedY = Math.max(0, Math.min(1, chromaticityY));
+  // Pointer up, cancel or lost capture: a pinch ends without resuming the pick under the remaining finger
+  const handlePointerEnd = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointers = activePointersRef.current;
+    if (!pointers.delete(event.pointerId)) return;
+
+    if (pointers.size === 0 || gestureRef.current === 'pinch') {
+      gestureRef.current = null;
+      setIsPanning(false);
+    }
+  }, []);
+
+  // Wheel and trackpad pinch zoom around the pointer. Registered natively because React's
+  // wheel listener is passive and cannot stop the page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const factor = Math.exp(-delta * (event.ctrlKey ? 0.01 : 0.002));
+      const anchor = clientToCanvas(canvas, event.clientX, event.clientY);
+      setDiagramView((view) => zoomDiagramView(view, factor, anchor, diagramViewport, diagramMode));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [diagramViewport, diagramMode]);
+
+  // Pick a color by temperature and tint
+  const handleTemperatureChange = useCallback((newTemperature: number, newTint: number, locus: WhiteLocus) => {
+    try {
+      setTemperature(newTemperature);
+      setTint(newTint);
+      setWhiteLocus(locus);
+
+      const { x, y } = temperatureTintToXY(newTemperature, newTint, locus, observer);
+      selectChromaticity(x, y);
+    } catch (error) {
+      console.error('Error selecting color temperature:', error);
+    }
+  }, [selectChromaticity, observer]);
 
-      // Update current chromaticity
-      const newXY: xyColor = { x: clampedX, y: clampedY, Y: luminance };
+  // Highest relative luminance the slider and editors can reach
+  const maxLuminance = absoluteLuminance ? PQ_MAX_LUMINANCE / sdrReferenceWhite : 1;
+
+  // Drive the picker from an XYZ value produced by any color model
+  const applyXYZ = useCallback((xyz: XYZColor, colorSpace: ColorSpace = selectedColorSpace) => {
+    try {
+      const xyY = XYZToxyY(xyz);
+      const newLuminance = Math.max(0, Math.min(maxLuminance, xyz.y));
+
+      // Black has no chromaticity; keep the current point
+      if (xyz.x + xyz.y + xyz.z > 0) {
+        setCurrentXY({ x: xyY.x, y: xyY.y, Y: newLuminance });
+      } else {
+        setCurrentXY((previous) => ({ ...previous, Y: 0 }));
+      }
+      setLuminance(newLuminance);
+      setCurrentColor(mapToGamut(xyz, colorSpace, gamutMapping));
+    } catch (error) {
+      console.error('Error applying color value:', error);
+    }
+  }, [selectedColorSpace, gamutMapping, maxLuminance]);
+
+  // Change luminance while keeping the chromaticity
+  const handleLuminanceChange = useCallback((newLuminance: number) => {
+    try {
+      const newXY: xyColor = { ...currentXY, Y: newLuminance };
+      setLuminance(newLuminance);
       setCurrentXY(newXY);
+      setCurrentColor(mapToGamut(xyYToXYZ(newXY), selectedColorSpace, gamutMapping));
+    } catch (error) {
+      console.error('Error changing luminance:', error);
+    }
+  }, [currentXY, selectedColorSpace, gamutMapping]);
 
-      // Convert to XYZ then to RGB
-      const xyz = xyYToXYZ(newXY);
-      const rgb = XYZToRGB(xyz, selectedColorSpace);
-      
-      // Apply gamma correction and clamp
-      const correctedRgb: RGBColor = {
-        r: Math.max(0, Math.min(255, gammaCorrect(rgb.r) * 255)),
-        g: Math.max(0, Math.min(255, gammaCorrect(rgb.g) * 255)),
-        b: Math.max(0, Math.min(255, gammaCorrect(rgb.b) * 255))
-      };
-
-      setCurrentColor(correctedRgb);
+  // Arrow keys nudge the selection in the diagram's own coordinates, Page Up/Down change luminance;
+  // Shift takes larger steps
+  const handleCanvasKeyDown = useCallback((event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const step = event.shiftKey ? 0.01 : 0.001;
+    const luminanceStep = event.shiftKey ? 0.1 : 0.01;
+    const nudges: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, step],
+      ArrowDown: [0, -step]
+    };
+
+    try {
+      if (event.key in nudges) {
+        event.preventDefault();
+        const [dx, dy] = nudges[event.key];
+        const point = xyToDiagram(currentXY.x, currentXY.y, diagramMode);
+        const chromaticity = diagramToXY({ x: point.x + dx, y: point.y + dy }, diagramMode);
+        pickChromaticity(chromaticity.x, chromaticity.y);
+      } else if (event.key === 'PageUp' || event.key === 'PageDown') {
+        event.preventDefault();
+        const direction = event.key === 'PageUp' ? 1 : -1;
+        handleLuminanceChange(Math.max(0, Math.min(maxLuminance, luminance + direction * luminanceStep)));
+      }
     } catch (error) {
-      console.error('Error in canvas interaction:', error);
+      console.error('Error handling diagram key:', error);
+    }
+  }, [currentXY, diagramMode, pickChromaticity, handleLuminanceChange, luminance, maxLuminance]);
+
+  // Leaving absolute mode brings luminance back into the SDR range
+  const handleAbsoluteLuminanceChange = useCallback((absolute: boolean) => {
+    setAbsoluteLuminance(absolute);
+    if (!absolute && luminance > 1) {
+      handleLuminanceChange(1);
+    }
+  }, [luminance, handleLuminanceChange]);
+
+  // Keep the absolute luminance when the reference white moves
+  const handleSDRReferenceWhiteChange = useCallback((referenceWhite: number) => {
+    setSDRReferenceWhite(referenceWhite);
+    handleLuminanceChange(Math.min(luminance * sdrReferenceWhite, PQ_MAX_LUMINANCE) / referenceWhite);
+  }, [luminance, sdrReferenceWhite, handleLuminanceChange]);
+
+  // Re-encode the picked color in another RGB space
+  const handleColorSpaceChange = useCallback((colorSpace: ColorSpace) => {
+    try {
+      setSelectedColorSpace(colorSpace);
+      setCurrentColor(mapToGamut(xyYToXYZ(currentXY), colorSpace, gamutMapping));
+    } catch (error) {
+      console.error('Error changing color space:', error);
+    }
+  }, [currentXY, gamutMapping]);
+
+  // Re-map the picked color with a different gamut mapping strategy
+  const handleGamutMappingChange = useCallback((method: GamutMappingMethod) => {
+    try {
+      setGamutMapping(method);
+      setCurrentColor(mapToGamut(xyYToXYZ(currentXY), selectedColorSpace, method));
+    } catch (error) {
+      console.error('Error changing gamut mapping:', error);
+    }
+  }, [currentXY, selectedColorSpace]);
+
+  // Seed the picker from a parsed CSS color, switching to the space it names
+  const handleCSSColor = useCallback((color: ParsedCSSColor) => {
+    if (color.colorSpace) {
+      setSelectedColorSpace(color.colorSpace);
     }
-  }, [luminance, selectedColorSpace]);
+    setAlpha(color.alpha);
+    applyXYZ(color.xyz, color.colorSpace);
+  }, [applyXYZ]);
+
+  // Move the picker to the chromaticity of a measured spectrum
+  const handleSpectralResult = useCallback((result: SpectralIntegrationResult) => {
+    const xyz = xyYToXYZ({ x: result.xyY.x, y: result.xyY.y, Y: luminance });
+    const { x, y } = XYZToxyY(xyz);
+    setSpectralXY({ x, y });
+    applyXYZ(xyz);
+  }, [applyXYZ, luminance]);
+  // The picker still sits on the spectrum's chromaticity; any other pick leaves it
+  const isSpectrumApplied = spectralXY !== null && currentXY.x === spectralXY.x && currentXY.y === spectralXY.y;
 
   // Update color when dependencies change
   useEffect(() => {
     try {
       // Convert current color to other formats
-      const xyz = RGBToXYZ(currentColor, selectedColorSpace);
+      const xyz = encodedRGBToXYZ(currentColor, selectedColorSpace);
       const hsl = RGBToHSL(currentColor);
-      const lab = XYZToLAB(xyz);
-      const oklch = LABToOKLCH(lab);
+      const lab = XYZToReferenceLAB(xyz, labReference);
+      const oklch = OKLabToOKLCH(XYZToOKLab(xyz));
       const xy = XYZToxyY(xyz);
-      const cssColor = generateCSSColor(currentColor, selectedColorSpace);
+      const rgb = { ...currentColor, alpha };
+      const cssColor = generateCSSColor(rgb, selectedColorSpace);
 
       onColorChange?.({
-        rgb: currentColor,
+        rgb,
         hsl,
         lab,
         oklch,
         xy,
         colorSpace: selectedColorSpace,
+        alpha,
+        referenceWhite,
+        observer,
         cssColor
       });
     } catch (error) {
       console.error('Error updating color:', error);
     }
-  }, [currentColor, selectedColorSpace, onColorChange]);
+  }, [currentColor, alpha, selectedColorSpace, labReference, referenceWhite, observer, onColorChange]);
 
   // Redraw canvas when needed
   useEffect(() => {
     drawChromaticityDiagram();
   }, [drawChromaticityDiagram]);
 
-  // Copy color to clipboard
-  const copyToClipboard = (text: string, format: string) => {
-    try {
-      navigator.clipboard.writeText(text);
-      toast.success(`${format} copied to clipboard!`);
-    } catch (error) {
-      console.error('Error copying to clipboard:', error);
-      toast.error('Failed to copy to clipboard');
-    }
-  };
-
   // Calculate color information
-  const colorTemperature = getColorTemperature(currentXY.x, currentXY.y);
-  const isColorInGamut = isInGamut(currentColor);
-  const xyz = RGBToXYZ(currentColor, selectedColorSpace);
+  const colorTemperature = calculateCCT(currentXY.x, currentXY.y, observer);
+  const currentUV = xyToUVPrime(currentXY.x, currentXY.y);
+  const currentDiagramPoint = xyToDiagram(currentXY.x, currentXY.y, diagramMode);
+  const [horizontalAxisLabel, verticalAxisLabel] = DIAGRAM_MODES[diagramMode].axes;
+  const diagramAnnouncement = `${horizontalAxisLabel} ${currentDiagramPoint.x.toFixed(4)}, ` +
+    `${verticalAxisLabel} ${currentDiagramPoint.y.toFixed(4)}, Y ${luminance.toFixed(3)}`;
+  const dominantWavelength = calculateDominantWavelength(
+    currentXY.x,
+    currentXY.y,
+    getIlluminantChromaticity(referenceWhite, observer),
+    observer
+  );
+  // The picked color before gamut mapping
+  const rawXYZ = xyYToXYZ(currentXY);
+  const rawRGB = XYZToEncodedRGB(rawXYZ, selectedColorSpace);
+  const isColorInGamut = isXYZInGamut(rawXYZ, selectedColorSpace);
+  const pqSignal = XYZToRec2100PQ(rawXYZ, sdrReferenceWhite);
+  const hlgSignal = XYZToRec2100HLG(rawXYZ);
+  const ictcp = XYZToICtCp(rawXYZ, sdrReferenceWhite);
+  const jzazbz = XYZToJzazbz(rawXYZ, sdrReferenceWhite);
+  const jzczhz = JzazbzToJzCzhz(jzazbz);
+  const formatSignal = (signal: RGBColor) =>
+    `${signal.r.toFixed(4)} ${signal.g.toFixed(4)} ${signal.b.toFixed(4)}`;
+  const formatCodeValues = (signal: RGBColor) =>
+    [10, 12].map((bitDepth) => {
+      const code = toCodeValues(signal, bitDepth);
+      return `${bitDepth}-bit ${code.r} ${code.g} ${code.b}`;
+    }).join(' · ');
+  const xyz = useMemo(
+    () => encodedRGBToXYZ(currentColor, selectedColorSpace),
+    [currentColor, selectedColorSpace]
+  );
   const hsl = RGBToHSL(currentColor);
-  const lab = XYZToLAB(xyz);
-  const oklch = LABToOKLCH(lab);
+  const hsv = RGBToHSV(currentColor);
+  const hwb = RGBToHWB(currentColor);
+  const luv = XYZToLUV(xyz);
+  const lchuv = LUVToLCHuv(luv);
+  const oklch = OKLabToOKLCH(XYZToOKLab(xyz));
+  // Okhsv, Okhsl and HSLuv are defined against the sRGB gamut
+  const sRGBColor = XYZToEncodedRGB(xyz, 'sRGB');
+  const okhsv = RGBToOkhsv(sRGBColor);
+  const okhsl = RGBToOkhsl(sRGBColor);
+  const hsluv = RGBToHSLuv(sRGBColor);
+  const cam16UCS = XYZToCAM16UCS(xyz, cam16Environment);
+  const colorWithAlpha: RGBColor = { ...currentColor, alpha };
+  const alphaSuffix = formatAlpha(alpha);
+  // Legacy comma syntax while opaque, space syntax once alpha is needed
+  const formatRGB = ({ r, g, b }: RGBColor) =>
+    alphaSuffix
+      ? `rgb(${Math.round(r)} ${Math.round(g)} ${Math.round(b)}${alphaSuffix})`
+      : `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+  const formatHSL = ({ h, s, l }: HSLColor) =>
+    alphaSuffix
+      ? `hsl(${Math.round(h)} ${Math.round(s)}% ${Math.round(l)}%${alphaSuffix})`
+      : `hsl(${Math.round(h)}, ${Math.round(s)}%, ${Math.round(l)}%)`;
+  // What the translucent color looks like over the chosen background
+  const compositedColor = compositeOver(
+    colorWithAlpha,
+    XYZToEncodedRGB(parseCSSColor(compositeBackground).xyz, selectedColorSpace)
+  );
+
+  // Export formats, each shown exactly as it is copied
+  const observerLabel = STANDARD_OBSERVERS[observer].label;
+  const exportFormats: { label: string; value: string; name?: string }[] = [
+    { label: 'RGB', value: formatRGB(currentColor) },
+    { label: 'HSL', value: formatHSL(hsl) },
+    { label: 'Modern CSS', value: generateCSSColor(colorWithAlpha, selectedColorSpace) },
+    { label: 'CSS lab() (D50)', name: 'CSS lab()', value: generateCSSLab(xyz, alpha) },
+    { label: 'CSS lch() (D50)', name: 'CSS lch()', value: generateCSSLCH(xyz, alpha) },
+    {
+      label: 'OKLCH',
+      value: `oklch(${oklch.l.toFixed(3)} ${oklch.c.toFixed(3)} ${oklch.h.toFixed(1)}${alphaSuffix})`
+    },
+    {
+      label: 'HSV / HSB',
+      name: 'HSV',
+      value: `hsv(${Math.round(hsv.h)} ${Math.round(hsv.s)}% ${Math.round(hsv.v)}%${alphaSuffix})`
+    },
+    {
+      label: 'HWB',
+      value: `hwb(${Math.round(hwb.h)} ${Math.round(hwb.w)}% ${Math.round(hwb.b)}%${alphaSuffix})`
+    },
+    { label: 'CIELUV', value: `luv(${luv.l.toFixed(2)} ${luv.u.toFixed(2)} ${luv.v.toFixed(2)}${alphaSuffix})` },
+    { label: 'LCHuv', value: `lchuv(${lchuv.l.toFixed(2)} ${lchuv.c.toFixed(2)} ${lchuv.h.toFixed(1)}${alphaSuffix})` },
+    {
+      label: 'Okhsv',
+      value: `okhsv(${okhsv.h.toFixed(1)} ${okhsv.s.toFixed(1)}% ${okhsv.v.toFixed(1)}%${alphaSuffix})`
+    },
+    {
+      label: 'Okhsl',
+      value: `okhsl(${okhsl.h.toFixed(1)} ${okhsl.s.toFixed(1)}% ${okhsl.l.toFixed(1)}%${alphaSuffix})`
+    },
+    {
+      label: 'HSLuv',
+      value: `hsluv(${hsluv.h.toFixed(1)} ${hsluv.s.toFixed(1)}% ${hsluv.l.toFixed(1)}%${alphaSuffix})`
+    },
+    {
+      label: 'CAM16-UCS',
+      value: `J'=${cam16UCS.J.toFixed(2)} a'=${cam16UCS.a.toFixed(2)} b'=${cam16UCS.b.toFixed(2)} ` +
+        `surround=${cam16Conditions.surround} La=${cam16Conditions.adaptingLuminance.toFixed(2)} ` +
+        `Yb=${cam16Conditions.backgroundLuminance}${alpha < 1 ? ` alpha=${Number(alpha.toFixed(3))}` : ''}`
+    },
+    { label: 'HEX', value: RGBToHex(colorWithAlpha) },
+    {
+      label: 'ICtCp',
+      value: `ictcp(${ictcp.i.toFixed(4)} ${ictcp.ct.toFixed(4)} ${ictcp.cp.toFixed(4)}${alphaSuffix})`
+    },
+    {
+      label: 'Jzazbz',
+      value: `jzazbz(${jzazbz.jz.toFixed(4)} ${jzazbz.az.toFixed(4)} ${jzazbz.bz.toFixed(4)}${alphaSuffix})`
+    },
+    {
+      label: 'JzCzhz',
+      value: `jzczhz(${jzczhz.jz.toFixed(4)} ${jzczhz.cz.toFixed(4)} ${jzczhz.hz.toFixed(1)}${alphaSuffix})`
+    },
+    {
+      label: `Rec.2100 PQ (${sdrReferenceWhite} cd/m² white)`,
+      name: 'Rec.2100 PQ',
+      value: `color(rec2100-pq ${formatSignal(pqSignal)}${alphaSuffix})`
+    },
+    { label: 'Rec.2100 HLG', value: `color(rec2100-hlg ${formatSignal(hlgSignal)}${alphaSuffix})` },
+    { label: 'PQ Code Values (narrow range)', name: 'PQ code values', value: formatCodeValues(pqSignal) },
+    { label: 'HLG Code Values (narrow range)', name: 'HLG code values', value: formatCodeValues(hlgSignal) },
+    {
+      label: 'xyY',
+      value: `x=${currentXY.x.toFixed(4)} y=${currentXY.y.toFixed(4)} Y=${luminance.toFixed(4)} observer=${observerLabel}`
+    },
+    {
+      label: 'u′v′',
+      value: `u'=${currentUV.u.toFixed(4)} v'=${currentUV.v.toFixed(4)} observer=${observerLabel}`
+    }
+  ];
 
   return (
     <TooltipProvider>
@@ -310,7 +960,7 @@ export default function ChromaticityColorPicker({
         {/* Header */}
         <div className="text-center space-y-2">
           <h1 className="text-3xl font-bold text-gray-900">Chromaticity Color Picker</h1>
-          <p className="text-gray-600">Explore colors through the CIE 1931 chromaticity diagram</p>
+          <p className="text-gray-600">Explore colors through the CIE chromaticity diagram</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -320,9 +970,37 @@ export default function ChromaticityColorPicker({
               <div className="flex items-center justify-between">
                 <CardTitle className="flex items-center gap-2">
                   <Palette className="w-5 h-5" />
-                  CIE 1931 Chromaticity Diagram
+                  Chromaticity Diagram
+                  <Badge variant="outline">{STANDARD_OBSERVERS[observer].label}</Badge>
                 </CardTitle>
                 <div className="flex items-center gap-2">
+                  <Tabs
+                    value={diagramMode}
+                    onValueChange={(value) => {
+                      setDiagramMode(value as DiagramMode);
+                      setDiagramView(getDefaultDiagramView(value as DiagramMode));
+                    }}
+                  >
+                    <TabsList className="h-8">
+                      {(Object.keys(DIAGRAM_MODES) as DiagramMode[]).map((mode) => (
+                        <TabsTrigger key={mode} value={mode} className="text-xs">
+                          {DIAGRAM_MODES[mode].label}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                  <Select value={observer} onValueChange={(value) => setObserver(value as StandardObserver)}>
+                    <SelectTrigger className="h-8 w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(STANDARD_OBSERVERS) as StandardObserver[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {STANDARD_OBSERVERS[key].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <Button
                     variant="outline"
                     size="sm"
@@ -330,12 +1008,31 @@ export default function ChromaticityColorPicker({
                   >
                     {showGamutOverlay ? 'Hide' : 'Show'} Gamuts
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowPlanckianLocus(!showPlanckianLocus)}
+                  >
+                    {showPlanckianLocus ? 'Hide' : 'Show'} Planckian
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!isZoomed}
+                    onClick={() => setDiagramView(getDefaultDiagramView(diagramMode))}
+                    title="Reset view"
+                    aria-label="Reset view"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
                   <Tooltip>
                     <TooltipTrigger>
                       <Info className="w-4 h-4 text-gray-500" />
                     </TooltipTrigger>
                     <TooltipContent>
                       <p>Click or drag to select colors on the diagram</p>
+                      <p>Scroll or pinch to zoom, Shift-drag to pan</p>
+                      <p>Arrow keys nudge the selection, Page Up/Down change luminance</p>
                     </TooltipContent>
                   </Tooltip>
                 </div>
@@ -343,31 +1040,53 @@ export default function ChromaticityColorPicker({
             </CardHeader>
             <CardContent>
               <div className="flex flex-col items-center space-y-4">
-                <canvas
-                  ref={canvasRef}
-                  width={CANVAS_WIDTH}
-                  height={CANVAS_HEIGHT}
-                  className="border border-gray-200 rounded-lg cursor-crosshair"
-                  onMouseDown={() => setIsDragging(true)}
-                  onMouseUp={() => setIsDragging(false)}
-                  onMouseMove={(e) => isDragging && handleCanvasInteraction(e)}
-                  onClick={handleCanvasInteraction}
-                />
-                
-                {/* Luminance Control */}
-                <div className="w-full max-w-md space-y-2">
-                  <label className="text-sm font-medium text-gray-700">
-                    Luminance (Y): {luminance.toFixed(3)}
-                  </label>
-                  <Slider
-                    value={[luminance]}
-                    onValueChange={(value) => setLuminance(value[0])}
-                    max={1}
-                    min={0}
-                    step={0.01}
-                    className="w-full"
+                <div ref={canvasContainerRef} className="w-full flex justify-center">
+                  <canvas
+                    ref={canvasRef}
+                    width={devicePixelSize}
+                    height={devicePixelSize}
+                    style={{ width: canvasSize, height: canvasSize }}
+                    className={`box-content border border-gray-200 rounded-lg touch-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${isPanning ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+                    tabIndex={0}
+                    role="application"
+                    aria-roledescription="chromaticity picker"
+                    aria-label={`Chromaticity diagram (${DIAGRAM_MODES[diagramMode].label})`}
+                    aria-describedby={diagramInstructionsId}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerEnd}
+                    onPointerCancel={handlePointerEnd}
+                    onLostPointerCapture={handlePointerEnd}
+                    onKeyDown={handleCanvasKeyDown}
                   />
                 </div>
+                <p id={diagramInstructionsId} className="sr-only">
+                  Arrow keys move the selection, Shift for larger steps. Page Up and Page Down change luminance.
+                </p>
+                <div aria-live="polite" className="sr-only">
+                  {diagramAnnouncement}
+                </div>
+                
+                {/* Luminance Control */}
+                <LuminanceControl
+                  luminance={luminance}
+                  absolute={absoluteLuminance}
+                  referenceWhite={sdrReferenceWhite}
+                  onLuminanceChange={handleLuminanceChange}
+                  onAbsoluteChange={handleAbsoluteLuminanceChange}
+                  onReferenceWhiteChange={handleSDRReferenceWhiteChange}
+                />
+
+                {/* Alpha Control */}
+                <AlphaControl alpha={alpha} onAlphaChange={setAlpha} />
+
+                {/* Color Temperature Control */}
+                <ColorTemperatureControls
+                  temperature={temperature}
+                  tint={tint}
+                  locus={whiteLocus}
+                  onChange={handleTemperatureChange}
+                />
               </div>
             </CardContent>
           </Card>
@@ -383,36 +1102,104 @@ export default function ChromaticityColorPicker({
             <CardContent className="space-y-4">
               {/* Color Preview */}
               <div className="space-y-2">
-                <div
-                  className="w-full h-20 rounded-lg border border-gray-200 shadow-sm"
-                  style={{ backgroundColor: generateCSSColor(currentColor, selectedColorSpace) }}
-                />
+                {isColorInGamut ? (
+                  <div className="w-full h-20 rounded-lg border border-gray-200 shadow-sm overflow-hidden" style={CHECKERBOARD_STYLE}>
+                    <div className="h-full" style={{ backgroundColor: generateCSSColor(colorWithAlpha, selectedColorSpace) }} />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <div className="h-20 rounded-lg border border-gray-200 shadow-sm overflow-hidden" style={CHECKERBOARD_STYLE}>
+                        <div className="h-full" style={{ backgroundColor: generateCSSColor(colorWithAlpha, selectedColorSpace) }} />
+                      </div>
+                      <div className="text-xs text-gray-600 text-center">Mapped</div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="h-20 rounded-lg border border-gray-200 shadow-sm overflow-hidden" style={CHECKERBOARD_STYLE}>
+                        <div
+                          className="h-full"
+                          style={{ backgroundColor: `color(xyz-d65 ${rawXYZ.x.toFixed(4)} ${rawXYZ.y.toFixed(4)} ${rawXYZ.z.toFixed(4)}${alphaSuffix})` }}
+                        />
+                      </div>
+                      <div className="text-xs text-gray-600 text-center font-mono">
+                        Raw {Math.round(rawRGB.r)} {Math.round(rawRGB.g)} {Math.round(rawRGB.b)}
+                      </div>
+                    </div>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <Badge variant={isColorInGamut ? "default" : "destructive"}>
                     {isColorInGamut ? "In Gamut" : "Out of Gamut"}
                   </Badge>
                   <Badge variant="outline">
-                    {Math.round(colorTemperature)}K
+                    {formatCCT(colorTemperature)}
                   </Badge>
                 </div>
               </div>
 
+              {/* Compositing */}
+              {alpha < 1 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm text-gray-700">Composited</h4>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      aria-label="Background color"
+                      className="h-8 w-10 cursor-pointer rounded border border-gray-200"
+                      value={compositeBackground}
+                      onChange={(e) => setCompositeBackground(e.target.value)}
+                    />
+                    <div
+                      className="h-8 flex-1 rounded border border-gray-200"
+                      style={{ backgroundColor: generateCSSColor(compositedColor, selectedColorSpace) }}
+                    />
+                    <code className="text-xs font-mono text-gray-600">
+                      {generateCSSColor(compositedColor, selectedColorSpace)}
+                    </code>
+                  </div>
+                </div>
+              )}
+
+              {/* CSS Input */}
+              <CSSColorInput onParse={handleCSSColor} />
+
+              {/* Gamut Mapping */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Gamut Mapping</label>
+                <Select value={gamutMapping} onValueChange={(value) => handleGamutMappingChange(value as GamutMappingMethod)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GAMUT_MAPPING_METHODS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Color Space Selector */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-700">Color Space</label>
-                <Tabs value={selectedColorSpace} onValueChange={(value) => setSelectedColorSpace(value as ColorSpace)}>
-                  <TabsList className="grid w-full grid-cols-3">
-                    <TabsTrigger value="sRGB">sRGB</TabsTrigger>
-                    <TabsTrigger value="P3">P3</TabsTrigger>
-                    <TabsTrigger value="Rec2020">Rec2020</TabsTrigger>
+                <Tabs value={selectedColorSpace} onValueChange={(value) => handleColorSpaceChange(value as ColorSpace)}>
+                  <TabsList className="grid w-full grid-cols-4 h-auto">
+                    {getRGBColorSpaces().map(({ id, label }) => (
+                      <TabsTrigger key={id} value={id} className="px-1 text-xs">
+                        {label}
+                      </TabsTrigger>
+                    ))}
                   </TabsList>
                 </Tabs>
+                <div className="text-xs text-gray-600">
+                  Transfer function: {getRGBColorSpace(selectedColorSpace).transferFunction.label}
+                </div>
               </div>
 
               {/* Color Values */}
               <div className="space-y-3">
-                <div className="space-y-2">
-                  <h4 className="font-medium text-sm text-gray-700">RGB Values</h4>
+                <InfoSection title="RGB Values">
                   <div className="grid grid-cols-3 gap-2 text-sm">
                     <div className="text-center">
                       <div className="font-mono text-xs text-gray-600">R</div>
@@ -427,10 +1214,9 @@ export default function ChromaticityColorPicker({
                       <div className="font-mono">{Math.round(currentColor.b)}</div>
                     </div>
                   </div>
-                </div>
+                </InfoSection>
 
-                <div className="space-y-2">
-                  <h4 className="font-medium text-sm text-gray-700">HSL Values</h4>
+                <InfoSection title="HSL Values">
                   <div className="grid grid-cols-3 gap-2 text-sm">
                     <div className="text-center">
                       <div className="font-mono text-xs text-gray-600">H</div>
@@ -445,11 +1231,119 @@ export default function ChromaticityColorPicker({
                       <div className="font-mono">{Math.round(hsl.l)}%</div>
                     </div>
                   </div>
-                </div>
+                </InfoSection>
 
-                <div className="space-y-2">
-                  <h4 className="font-medium text-sm text-gray-700">Chromaticity (xy)</h4>
-                  <div className="grid grid-cols-2 gap-2 text-sm">
+                <InfoSection title="HSV / HSB" defaultOpen={false}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">H</div>
+                      <div className="font-mono">{`${Math.round(hsv.h)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">S</div>
+                      <div className="font-mono">{`${Math.round(hsv.s)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">V</div>
+                      <div className="font-mono">{`${Math.round(hsv.v)}%`}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title="HWB" defaultOpen={false}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">H</div>
+                      <div className="font-mono">{`${Math.round(hwb.h)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">W</div>
+                      <div className="font-mono">{`${Math.round(hwb.w)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">B</div>
+                      <div className="font-mono">{`${Math.round(hwb.b)}%`}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title="CIELUV / LCHuv (D65)" defaultOpen={false}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">L*</div>
+                      <div className="font-mono">{luv.l.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">u*</div>
+                      <div className="font-mono">{luv.u.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">v*</div>
+                      <div className="font-mono">{luv.v.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">C*uv</div>
+                      <div className="font-mono">{lchuv.c.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">huv</div>
+                      <div className="font-mono">{`${lchuv.h.toFixed(1)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">suv</div>
+                      <div className="font-mono">{lchuv.l > 0 ? (lchuv.c / lchuv.l).toFixed(3) : '—'}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title="Okhsv / Okhsl (sRGB)" defaultOpen={false}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">H</div>
+                      <div className="font-mono">{`${okhsv.h.toFixed(1)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">S</div>
+                      <div className="font-mono">{`${okhsv.s.toFixed(1)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">V</div>
+                      <div className="font-mono">{`${okhsv.v.toFixed(1)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">H</div>
+                      <div className="font-mono">{`${okhsl.h.toFixed(1)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">S</div>
+                      <div className="font-mono">{`${okhsl.s.toFixed(1)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">L</div>
+                      <div className="font-mono">{`${okhsl.l.toFixed(1)}%`}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title="HSLuv (sRGB)" defaultOpen={false}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">H</div>
+                      <div className="font-mono">{`${hsluv.h.toFixed(1)}°`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">S</div>
+                      <div className="font-mono">{`${hsluv.s.toFixed(1)}%`}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">L</div>
+                      <div className="font-mono">{`${hsluv.l.toFixed(1)}%`}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title="Chromaticity (xy / u′v′)">
+                  <div className="grid grid-cols-4 gap-2 text-sm">
                     <div className="text-center">
                       <div className="font-mono text-xs text-gray-600">x</div>
                       <div className="font-mono">{currentXY.x.toFixed(4)}</div>
@@ -458,13 +1352,139 @@ export default function ChromaticityColorPicker({
                       <div className="font-mono text-xs text-gray-600">y</div>
                       <div className="font-mono">{currentXY.y.toFixed(4)}</div>
                     </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">u′</div>
+                      <div className="font-mono">{currentUV.u.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">v′</div>
+                      <div className="font-mono">{currentUV.v.toFixed(4)}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title={`Dominant Wavelength (${referenceWhite})`}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">
+                        {dominantWavelength?.complementary ? 'λc' : 'λd'}
+                      </div>
+                      <div className="font-mono">
+                        {dominantWavelength?.wavelength != null
+                          ? `${dominantWavelength.wavelength.toFixed(1)}nm`
+                          : '—'}
+                      </div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">pe</div>
+                      <div className="font-mono">
+                        {dominantWavelength ? `${(dominantWavelength.excitationPurity * 100).toFixed(1)}%` : '—'}
+                      </div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">pc</div>
+                      <div className="font-mono">
+                        {dominantWavelength ? `${(dominantWavelength.colorimetricPurity * 100).toFixed(1)}%` : '—'}
+                      </div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <InfoSection title={`HDR Perceptual (${sdrReferenceWhite} cd/m² white)`}>
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">I</div>
+                      <div className="font-mono">{ictcp.i.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">Ct</div>
+                      <div className="font-mono">{ictcp.ct.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">Cp</div>
+                      <div className="font-mono">{ictcp.cp.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">Jz</div>
+                      <div className="font-mono">{jzczhz.jz.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">Cz</div>
+                      <div className="font-mono">{jzczhz.cz.toFixed(4)}</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="font-mono text-xs text-gray-600">hz</div>
+                      <div className="font-mono">{`${jzczhz.hz.toFixed(1)}°`}</div>
+                    </div>
+                  </div>
+                </InfoSection>
+
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm text-gray-700">Reference White (LAB)</h4>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select value={referenceWhite} onValueChange={(value) => setReferenceWhite(value as IlluminantName)}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ILLUMINANT_NAMES.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name} — {STANDARD_ILLUMINANTS[name].description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={adaptationMethod} onValueChange={(value) => setAdaptationMethod(value as AdaptationMethod)}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ADAPTATION_METHODS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
+
+                <ColorModelEditor
+                  xyz={xyz}
+                  colorSpace={selectedColorSpace}
+                  labReference={labReference}
+                  onChange={applyXYZ}
+                />
+
+                <CAM16Panel
+                  xyz={xyz}
+                  conditions={cam16Conditions}
+                  environment={cam16Environment}
+                  onConditionsChange={setCAM16Conditions}
+                  onChange={applyXYZ}
+                />
+
+                <YCbCrPanel xyz={xyz} onChange={applyXYZ} />
+
+                <ColorDifferencePanel
+                  referenceXYZ={referenceColor}
+                  currentRGB={currentColor}
+                  currentXYZ={xyz}
+                  colorSpace={selectedColorSpace}
+                  labReference={labReference}
+                  cam16Environment={cam16Environment}
+                  sdrReferenceWhite={sdrReferenceWhite}
+                  onSetReference={() => setReferenceColor(xyz)}
+                  onClearReference={() => setReferenceColor(null)}
+                />
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* Spectral Input */}
+        <SpectralInput observer={observer} applied={isSpectrumApplied} onResult={handleSpectralResult} />
+
         {/* Color Format Exports */}
         <Card>
           <CardHeader>
@@ -472,121 +1492,9 @@ export default function ChromaticityColorPicker({
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">RGB</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    rgb({Math.round(currentColor.r)}, {Math.round(currentColor.g)}, {Math.round(currentColor.b)})
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      `rgb(${Math.round(currentColor.r)}, ${Math.round(currentColor.g)}, ${Math.round(currentColor.b)})`,
-                      "RGB"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">HSL</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    hsl({Math.round(hsl.h)}, {Math.round(hsl.s)}%, {Math.round(hsl.l)}%)
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      `hsl(${Math.round(hsl.h)}, ${Math.round(hsl.s)}%, ${Math.round(hsl.l)}%)`,
-                      "HSL"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">Modern CSS</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    {generateCSSColor(currentColor, selectedColorSpace)}
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      generateCSSColor(currentColor, selectedColorSpace),
-                      "Modern CSS"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">LAB</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    lab({lab.l.toFixed(1)}% {lab.a.toFixed(1)} {lab.b.toFixed(1)})
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      `lab(${lab.l.toFixed(1)}% ${lab.a.toFixed(1)} ${lab.b.toFixed(1)})`,
-                      "LAB"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">OKLCH</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    oklch({oklch.l.toFixed(3)} {oklch.c.toFixed(3)} {oklch.h.toFixed(1)})
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      `oklch(${oklch.l.toFixed(3)} ${oklch.c.toFixed(3)} ${oklch.h.toFixed(1)})`,
-                      "OKLCH"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700">HEX</label>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono">
-                    #{Math.round(currentColor.r).toString(16).padStart(2, '0')}
-                    {Math.round(currentColor.g).toString(16).padStart(2, '0')}
-                    {Math.round(currentColor.b).toString(16).padStart(2, '0')}
-                  </code>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => copyToClipboard(
-                      `#${Math.round(currentColor.r).toString(16).padStart(2, '0')}${Math.round(currentColor.g).toString(16).padStart(2, '0')}${Math.round(currentColor.b).toString(16).padStart(2, '0')}`,
-                      "HEX"
-                    )}
-                  >
-                    <Copy className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
+              {exportFormats.map((format) => (
+                <ExportRow key={format.name ?? format.label} {...format} />
+              ))}
             </div>
           </CardContent>
         </Card>
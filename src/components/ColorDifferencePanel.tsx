@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import NumberInput from '@/components/NumberInput';
+import {
+  XYZColor,
+  RGBColor,
+  ColorSpace,
+  LABReference,
+  XYZToReferenceLAB,
+  XYZToOKLab,
+  XYZToEncodedRGB,
+  generateCSSColor
+} from '@/utils/colorConversions';
+import {
+  DeltaEMethod,
+  CIE94Application,
+  CIEDE2000Weights,
+  DELTA_E_METHODS,
+  deltaE76,
+  deltaE94,
+  deltaE2000,
+  deltaEOK,
+  deltaECAM16UCS,
+  deltaEITP,
+  deltaEz
+} from '@/utils/colorDifference';
+import { CAM16Environment } from '@/utils/cam16';
+import { XYZToICtCp, XYZToJzazbz } from '@/utils/hdrPerceptual';
+
+interface ColorDifferencePanelProps {
+  referenceXYZ: XYZColor | null;
+  currentRGB: RGBColor;
+  currentXYZ: XYZColor;
+  colorSpace: ColorSpace;
+  labReference?: LABReference;
+  cam16Environment?: CAM16Environment;
+  sdrReferenceWhite?: number; // cd/m², for ΔEITP and ΔEz
+  onSetReference: () => void;
+  onClearReference: () => void;
+}
+
+const WEIGHT_KEYS: (keyof CIEDE2000Weights)[] = ['kL', 'kC', 'kH'];
+
+export default function ColorDifferencePanel({
+  referenceXYZ,
+  currentRGB,
+  currentXYZ,
+  colorSpace,
+  labReference,
+  cam16Environment,
+  sdrReferenceWhite,
+  onSetReference,
+  onClearReference
+}: ColorDifferencePanelProps) {
+  const [cie94Application, setCIE94Application] = useState<CIE94Application>('graphicArts');
+  const [weights, setWeights] = useState<CIEDE2000Weights>({ kL: 1, kC: 1, kH: 1 });
+
+  // Reference is the first operand; CIE94 is not symmetric
+  const computeDifference = (method: DeltaEMethod, reference: XYZColor): number => {
+    const referenceLab = XYZToReferenceLAB(reference, labReference);
+    const currentLab = XYZToReferenceLAB(currentXYZ, labReference);
+
+    switch (method) {
+      case 'CIE76':
+        return deltaE76(referenceLab, currentLab);
+      case 'CIE94':
+        return deltaE94(referenceLab, currentLab, cie94Application);
+      case 'CIEDE2000':
+        return deltaE2000(referenceLab, currentLab, weights);
+      case 'OK':
+        return deltaEOK(XYZToOKLab(reference), XYZToOKLab(currentXYZ));
+      case 'CAM16UCS':
+        return deltaECAM16UCS(reference, currentXYZ, cam16Environment);
+      case 'ITP':
+        return deltaEITP(XYZToICtCp(reference, sdrReferenceWhite), XYZToICtCp(currentXYZ, sdrReferenceWhite));
+      case 'Jz':
+        return deltaEz(XYZToJzazbz(reference, sdrReferenceWhite), XYZToJzazbz(currentXYZ, sdrReferenceWhite));
+    }
+  };
+
+  const differences = referenceXYZ
+    ? DELTA_E_METHODS.map(({ value, label }) => ({ label, value: computeDifference(value, referenceXYZ) }))
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm text-gray-700">Color Difference</h4>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onSetReference}>
+            Set Reference
+          </Button>
+          {referenceXYZ && (
+            <Button variant="ghost" size="sm" onClick={onClearReference}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {referenceXYZ ? (
+        <>
+          <div className="flex h-8 overflow-hidden rounded-lg border border-gray-200">
+            <div
+              className="flex-1"
+              title="Reference"
+              style={{ backgroundColor: generateCSSColor(XYZToEncodedRGB(referenceXYZ, colorSpace), colorSpace) }}
+            />
+            <div
+              className="flex-1"
+              title="Current"
+              style={{ backgroundColor: generateCSSColor(currentRGB, colorSpace) }}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {differences.map(({ label, value }) => (
+              <div key={label} className="flex justify-between">
+                <span className="font-mono text-xs text-gray-600">{label}</span>
+                <span className="font-mono">{value.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+
+          <Tabs value={cie94Application} onValueChange={(value) => setCIE94Application(value as CIE94Application)}>
+            <TabsList className="grid w-full grid-cols-2 h-8">
+              <TabsTrigger value="graphicArts" className="text-xs">ΔE94 Graphic Arts</TabsTrigger>
+              <TabsTrigger value="textiles" className="text-xs">ΔE94 Textiles</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="grid grid-cols-3 gap-2">
+            {WEIGHT_KEYS.map((key) => (
+              <div key={key} className="space-y-1 text-center">
+                <div className="font-mono text-xs text-gray-600">{key}</div>
+                <NumberInput
+                  className="h-8 font-mono text-center"
+                  aria-label={`CIEDE2000 ${key}`}
+                  value={weights[key]}
+                  isValid={(value) => value > 0}
+                  onCommit={(value) => setWeights({ ...weights, [key]: value })}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">Set a reference color to compare against the current one.</p>
+      )}
+    </div>
+  );
+}
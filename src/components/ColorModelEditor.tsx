@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import {
+  XYZColor,
+  ColorSpace,
+  ColorModel,
+  ColorModelValues,
+  LABReference,
+  COLOR_MODEL_CHANNELS,
+  colorModelToXYZ,
+  XYZToColorModel
+} from '@/utils/colorConversions';
+
+interface ColorModelEditorProps {
+  xyz: XYZColor;
+  colorSpace: ColorSpace;
+  labReference?: LABReference;
+  onChange: (xyz: XYZColor) => void;
+}
+
+const COLOR_MODELS: ColorModel[] = ['HSL', 'LAB', 'LCH', 'OKLab', 'OKLCH', 'xyY'];
+
+// Decimal places shown per model, so drafts stay readable
+const COLOR_MODEL_PRECISION: Record<ColorModel, number> = {
+  HSL: 1,
+  LAB: 2,
+  LCH: 2,
+  OKLab: 4,
+  OKLCH: 4,
+  xyY: 4
+};
+
+function formatValues(
+  xyz: XYZColor,
+  model: ColorModel,
+  colorSpace: ColorSpace,
+  labReference?: LABReference
+): string[] {
+  return XYZToColorModel(xyz, model, colorSpace, labReference).map((value) =>
+    value.toFixed(COLOR_MODEL_PRECISION[model])
+  );
+}
+
+export default function ColorModelEditor({ xyz, colorSpace, labReference, onChange }: ColorModelEditorProps) {
+  const [model, setModel] = useState<ColorModel>('OKLCH');
+  const [draft, setDraft] = useState<string[]>(() => formatValues(xyz, model, colorSpace, labReference));
+
+  // Reset the draft whenever the color changes from elsewhere
+  useEffect(() => {
+    setDraft(formatValues(xyz, model, colorSpace, labReference));
+  }, [xyz, model, colorSpace, labReference]);
+
+  // Apply the draft values to the picker; an untouched draft leaves the color alone
+  const commit = () => {
+    const current = formatValues(xyz, model, colorSpace, labReference);
+    if (draft.every((value, index) => value === current[index])) return;
+
+    // A cleared field is not zero
+    const values = draft.map((value) => (value.trim() ? Number(value) : NaN)) as ColorModelValues;
+    if (values.some((value) => !Number.isFinite(value))) {
+      setDraft(current);
+      return;
+    }
+    onChange(colorModelToXYZ(model, values, colorSpace, labReference));
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm text-gray-700">Edit Values</h4>
+      <Tabs value={model} onValueChange={(value) => setModel(value as ColorModel)}>
+        <TabsList className="grid w-full grid-cols-6">
+          {COLOR_MODELS.map((m) => (
+            <TabsTrigger key={m} value={m} className="px-1 text-xs">
+              {m}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <div className="grid grid-cols-3 gap-2">
+        {COLOR_MODEL_CHANNELS[model].map((channel, index) => (
+          <div key={channel} className="space-y-1 text-center">
+            <div className="font-mono text-xs text-gray-600">{channel}</div>
+            <Input
+              className="h-8 font-mono text-center"
+              inputMode="decimal"
+              value={draft[index]}
+              onChange={(e) => {
+                const next = [...draft];
+                next[index] = e.target.value;
+                setDraft(next);
+              }}
+              onBlur={commit}
+              onKeyDown={(e) => e.key === 'Enter' && commit()}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Slider } from '@/components/ui/slider';
+import {
+  WhiteLocus,
+  MIN_CCT,
+  MAX_CCT,
+  MIN_DAYLIGHT_CCT,
+  MAX_VALID_DUV
+} from '@/utils/colorTemperature';
+
+interface ColorTemperatureControlsProps {
+  temperature: number;
+  tint: number;
+  locus: WhiteLocus;
+  onChange: (temperature: number, tint: number, locus: WhiteLocus) => void;
+}
+
+export default function ColorTemperatureControls({
+  temperature,
+  tint,
+  locus,
+  onChange
+}: ColorTemperatureControlsProps) {
+  const minTemperature = locus === 'daylight' ? MIN_DAYLIGHT_CCT : MIN_CCT;
+
+  return (
+    <div className="w-full max-w-md space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">Color Temperature</label>
+        <Tabs
+          value={locus}
+          onValueChange={(value) =>
+            onChange(Math.max(temperature, value === 'daylight' ? MIN_DAYLIGHT_CCT : MIN_CCT), tint, value as WhiteLocus)
+          }
+        >
+          <TabsList className="h-8">
+            <TabsTrigger value="planckian" className="text-xs">Planckian</TabsTrigger>
+            <TabsTrigger value="daylight" className="text-xs">Daylight</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-gray-600">Temperature: {Math.round(temperature)}K</div>
+        <Slider
+          value={[temperature]}
+          onValueChange={(value) => onChange(value[0], tint, locus)}
+          min={minTemperature}
+          max={MAX_CCT}
+          step={50}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs text-gray-600">
+          Tint (Duv): {tint >= 0 ? '+' : ''}{tint.toFixed(4)}
+        </div>
+        <Slider
+          value={[tint]}
+          onValueChange={(value) => onChange(temperature, value[0], locus)}
+          min={-MAX_VALID_DUV}
+          max={MAX_VALID_DUV}
+          step={0.0005}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Button } from '@/components/ui/button';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ExportRowProps {
+  label: string;
+  value: string;
+  // Format name in the copy confirmation, when the label carries extra detail
+  name?: string;
+}
+
+// One export format; the text shown is exactly the text copied
+export default function ExportRow({ label, value, name = label }: ExportRowProps) {
+  const copyToClipboard = () => {
+    try {
+      navigator.clipboard.writeText(value);
+      toast.success(`${name} copied to clipboard!`);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-700">{label}</label>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 px-3 py-2 bg-gray-100 rounded text-sm font-mono break-all">
+          {value}
+        </code>
+        <Button variant="outline" size="sm" aria-label={`Copy ${name}`} onClick={copyToClipboard}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { ReactNode, useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+
+interface InfoSectionProps {
+  title: ReactNode;
+  defaultOpen?: boolean;
+  children: ReactNode;
+}
+
+export default function InfoSection({ title, defaultOpen = true, children }: InfoSectionProps) {
+  const [open, setOpen] = useState(defaultOpen);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-left">
+        <h4 className="font-medium text-sm text-gray-700">{title}</h4>
+        <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>{children}</CollapsibleContent>
+    </Collapsible>
+  );
+}
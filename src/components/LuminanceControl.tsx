@@ -0,0 +1,74 @@
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import NumberInput from '@/components/NumberInput';
+import { PQ_MAX_LUMINANCE, pqEncode, pqDecode } from '@/utils/hdr';
+
+interface LuminanceControlProps {
+  luminance: number; // relative Y, 1 = reference white
+  absolute: boolean;
+  referenceWhite: number; // cd/m²
+  onLuminanceChange: (luminance: number) => void;
+  onAbsoluteChange: (absolute: boolean) => void;
+  onReferenceWhiteChange: (referenceWhite: number) => void;
+}
+
+export default function LuminanceControl({
+  luminance,
+  absolute,
+  referenceWhite,
+  onLuminanceChange,
+  onAbsoluteChange,
+  onReferenceWhiteChange
+}: LuminanceControlProps) {
+  const nits = luminance * referenceWhite;
+
+  return (
+    <div className="w-full max-w-md space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">
+          {absolute
+            ? `Luminance: ${nits.toFixed(nits < 10 ? 2 : 0)} cd/m² (Y ${luminance.toFixed(3)})`
+            : `Luminance (Y): ${luminance.toFixed(3)}`}
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Absolute (HDR)
+          <Switch checked={absolute} onCheckedChange={onAbsoluteChange} />
+        </label>
+      </div>
+
+      {absolute ? (
+        <>
+          {/* Slide in PQ signal space so low luminances keep usable resolution */}
+          <Slider
+            value={[pqEncode(nits)]}
+            onValueChange={(value) => onLuminanceChange(pqDecode(value[0]) / referenceWhite)}
+            max={1}
+            min={0}
+            step={0.001}
+            className="w-full"
+          />
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            SDR reference white
+            <NumberInput
+              className="h-8 w-24 font-mono"
+              aria-label="SDR reference white"
+              value={referenceWhite}
+              isValid={(value) => value > 0 && value <= PQ_MAX_LUMINANCE}
+              onCommit={onReferenceWhiteChange}
+            />
+            cd/m²
+          </div>
+        </>
+      ) : (
+        <Slider
+          value={[luminance]}
+          onValueChange={(value) => onLuminanceChange(value[0])}
+          max={1}
+          min={0}
+          step={0.01}
+          className="w-full"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { ComponentProps, useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+
+interface NumberInputProps extends Omit<ComponentProps<'input'>, 'value' | 'onChange' | 'type'> {
+  value: number;
+  isValid: (value: number) => boolean;
+  onCommit: (value: number) => void;
+}
+
+// Number field that keeps what is typed as a draft and commits it on blur or Enter, so
+// intermediate text such as "0" on the way to "0.5", or a cleared field, never snaps back
+export default function NumberInput({ value, isValid, onCommit, ...props }: NumberInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  // Reset the draft whenever the value changes from elsewhere
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  // Apply a valid draft; anything else goes back to the current value
+  const commit = () => {
+    const parsed = draft.trim() ? Number(draft) : NaN;
+    if (!Number.isFinite(parsed) || !isValid(parsed)) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  return (
+    <Input
+      inputMode="decimal"
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+    />
+  );
+}
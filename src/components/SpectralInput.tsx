@@ -0,0 +1,167 @@
+import { useState, useRef, useEffect } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Activity, Upload } from 'lucide-react';
+import {
+  SpectralPowerDistribution,
+  SpectralIntegrationResult,
+  parseSPD,
+  spectrumToXYZ
+} from '@/utils/spectral';
+import { StandardObserver, STANDARD_OBSERVERS } from '@/utils/colorMatchingFunctions';
+
+interface SpectralInputProps {
+  observer: StandardObserver;
+  applied: boolean; // the picker still shows the last spectrum's result
+  onResult: (result: SpectralIntegrationResult) => void;
+}
+
+const chartConfig = {
+  value: {
+    label: 'Relative power',
+    color: '#3b82f6'
+  }
+} satisfies ChartConfig;
+
+export default function SpectralInput({ observer, applied, onResult }: SpectralInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [spd, setSPD] = useState<SpectralPowerDistribution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Observer the picker was last moved with
+  const appliedObserverRef = useRef(observer);
+
+  // Result follows the active observer
+  let result: SpectralIntegrationResult | null = null;
+  try {
+    result = spd ? spectrumToXYZ(spd, observer) : null;
+  } catch (error) {
+    console.error('Error integrating spectrum:', error);
+  }
+
+  // Move the picker again when the observer changes, so it follows the result shown,
+  // unless something else has moved it since the spectrum was applied
+  useEffect(() => {
+    if (appliedObserverRef.current === observer) return;
+    appliedObserverRef.current = observer;
+    if (!spd || !applied) return;
+
+    try {
+      onResult(spectrumToXYZ(spd, observer));
+    } catch (error) {
+      console.error('Error integrating spectrum:', error);
+    }
+  }, [spd, observer, applied, onResult]);
+
+  // Parse the text and move the picker to the resulting chromaticity
+  const applySPD = (source: string) => {
+    try {
+      const parsed = parseSPD(source);
+      const integrated = spectrumToXYZ(parsed, observer);
+      setSPD(parsed);
+      setError(null);
+      appliedObserverRef.current = observer;
+      onResult(integrated);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid spectral data');
+    }
+  };
+
+  const handleFileUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const content = String(reader.result ?? '');
+      setText(content);
+      applySPD(content);
+    };
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+  };
+
+  // Plot relative to the peak so any units read the same
+  const peak = spd ? Math.max(...spd.map((sample) => sample.value)) || 1 : 1;
+  const chartData = spd?.map(({ wavelength, value }) => ({ wavelength, value: value / peak })) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Spectral Power Distribution
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Textarea
+              className="h-40 font-mono text-xs"
+              placeholder={'wavelength,value\n380,0.12\n385,0.15\n...\n\nor JSON: [[380, 0.12], ...]'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={() => applySPD(text)}>
+                Compute
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4" />
+                Upload CSV/JSON
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFileUpload(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {result && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">x {result.xyY.x.toFixed(4)}</Badge>
+                <Badge variant="outline">y {result.xyY.y.toFixed(4)}</Badge>
+                <Badge variant="outline">
+                  X {result.xyz.x.toFixed(4)} Y {result.xyz.y.toFixed(4)} Z {result.xyz.z.toFixed(4)}
+                </Badge>
+                <Badge variant="secondary">{STANDARD_OBSERVERS[observer].label}</Badge>
+              </div>
+            )}
+          </div>
+
+          <div className="min-h-40">
+            {spd ? (
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={chartData} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="wavelength"
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickLine={false}
+                    axisLine={false}
+                    unit=" nm"
+                  />
+                  <YAxis domain={[0, 1]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.wavelength} nm`} />} />
+                  <Line dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <div className="flex h-48 items-center justify-center rounded-lg border border-dashed border-gray-200 text-sm text-gray-500">
+                Paste or upload an SPD to plot it
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { XYZColor } from '@/utils/colorConversions';
+import { CodeValueRange } from '@/utils/hdr';
+import {
+  YCbCrMatrix,
+  YCbCrBitDepth,
+  YCbCrFlags,
+  YCBCR_MATRICES,
+  YCBCR_BIT_DEPTHS,
+  YCBCR_TRANSFER,
+  XYZToYCbCr,
+  YCbCrToXYZ,
+  quantizeYCbCr,
+  dequantizeYCbCr,
+  checkYCbCrCodeValues
+} from '@/utils/ycbcr';
+
+interface YCbCrPanelProps {
+  xyz: XYZColor;
+  onChange: (xyz: XYZColor) => void;
+}
+
+const YCBCR_CHANNELS = ['y', 'cb', 'cr'] as const;
+const YCBCR_CHANNEL_LABELS = ["Y'", 'Cb', 'Cr'];
+
+const FLAG_LABELS: Record<keyof YCbCrFlags, string> = {
+  superWhite: 'Super-white',
+  subBlack: 'Sub-black',
+  chromaExcursion: 'Chroma excursion',
+  reservedCode: 'Reserved code',
+  outOfGamut: "Illegal R'G'B'"
+};
+
+export default function YCbCrPanel({ xyz, onChange }: YCbCrPanelProps) {
+  const [matrix, setMatrix] = useState<YCbCrMatrix>('BT709');
+  const [range, setRange] = useState<CodeValueRange>('narrow');
+  const [bitDepth, setBitDepth] = useState<YCbCrBitDepth>(10);
+
+  const ycbcr = XYZToYCbCr(xyz, matrix);
+  const codes = quantizeYCbCr(ycbcr, bitDepth, range);
+  const formattedCodes = YCBCR_CHANNELS.map((key) => String(codes[key]));
+  const [draft, setDraft] = useState<string[]>(formattedCodes);
+
+  // Reset the draft whenever the color or encoding changes
+  useEffect(() => {
+    const current = quantizeYCbCr(XYZToYCbCr(xyz, matrix), bitDepth, range);
+    setDraft(YCBCR_CHANNELS.map((key) => String(current[key])));
+  }, [xyz, matrix, bitDepth, range]);
+
+  // Flags follow what is typed, so illegal code values can be inspected before applying;
+  // a cleared field is not code 0
+  const draftCodes = draft.map((value) => (value.trim() ? Number(value) : NaN));
+  const flags = draftCodes.every(Number.isInteger)
+    ? checkYCbCrCodeValues({ y: draftCodes[0], cb: draftCodes[1], cr: draftCodes[2] }, bitDepth, range, matrix)
+    : null;
+  const raisedFlags = flags ? (Object.keys(FLAG_LABELS) as (keyof YCbCrFlags)[]).filter((key) => flags[key]) : [];
+
+  // Decode the typed code values and move the picker there; an untouched draft leaves the color alone
+  const commit = () => {
+    if (draft.every((value, index) => value === formattedCodes[index])) return;
+
+    const [y, cb, cr] = draftCodes;
+    const max = 2 ** bitDepth - 1;
+    if (![y, cb, cr].every((value) => Number.isInteger(value) && value >= 0 && value <= max)) {
+      setDraft(formattedCodes);
+      return;
+    }
+    try {
+      onChange(YCbCrToXYZ(dequantizeYCbCr({ y, cb, cr }, bitDepth, range), matrix));
+    } catch (error) {
+      console.error("Error converting from Y'CbCr:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm text-gray-700">Y'CbCr</h4>
+        <Tabs value={range} onValueChange={(value) => setRange(value as CodeValueRange)}>
+          <TabsList className="h-8">
+            <TabsTrigger value="narrow" className="text-xs">Limited</TabsTrigger>
+            <TabsTrigger value="full" className="text-xs">Full</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={matrix} onValueChange={(value) => setMatrix(value as YCbCrMatrix)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(YCBCR_MATRICES) as YCbCrMatrix[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {YCBCR_MATRICES[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={String(bitDepth)} onValueChange={(value) => setBitDepth(Number(value) as YCbCrBitDepth)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {YCBCR_BIT_DEPTHS.map((depth) => (
+              <SelectItem key={depth} value={String(depth)}>
+                {depth}-bit
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {YCBCR_CHANNELS.map((channel, index) => (
+          <div key={channel} className="space-y-1 text-center">
+            <div className="font-mono text-xs text-gray-600">{YCBCR_CHANNEL_LABELS[index]}</div>
+            <Input
+              className="h-8 font-mono text-center"
+              inputMode="numeric"
+              aria-label={`${YCBCR_CHANNEL_LABELS[index]} code value`}
+              value={draft[index]}
+              onChange={(e) => {
+                const next = [...draft];
+                next[index] = e.target.value;
+                setDraft(next);
+              }}
+              onBlur={commit}
+              onKeyDown={(e) => e.key === 'Enter' && commit()}
+            />
+            <div className="font-mono text-xs text-gray-500">{ycbcr[channel].toFixed(4)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {raisedFlags.length > 0 ? (
+          raisedFlags.map((key) => (
+            <Badge key={key} variant="destructive">
+              {FLAG_LABELS[key]}
+            </Badge>
+          ))
+        ) : (
+          <Badge variant="outline">{range === 'narrow' ? 'Legal range' : 'In range'}</Badge>
+        )}
+        <span className="text-xs text-gray-500">
+          {YCBCR_MATRICES[matrix].colorSpace} primaries, {YCBCR_TRANSFER.label} encoding
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { ColorSpace } from '@/utils/colorConversions';
+import { StandardObserver } from '@/utils/colorMatchingFunctions';
+import { getChromaticityBoundary } from '@/utils/spectralLocus';
+import { getRGBColorSpace } from '@/utils/rgbColorSpaces';
+import { multiplyMatrices } from '@/utils/matrix';
+import { ChromaticityImageRequest, renderChromaticityImage } from '@/utils/chromaticityImage';
+import { DiagramMode, DiagramTransform, DIAGRAM_MODES } from '@/utils/diagramCoordinates';
+
+// A rendered fill and the transform it was rendered for
+export interface ChromaticityImage {
+  bitmap: ImageBitmap;
+  transform: DiagramTransform;
+}
+
+// Rendered fills survive remounts; oldest entries go first once the cache is full.
+// At the largest resolution each fill takes 16 MB.
+const MAX_CACHED_IMAGES = 12;
+// Square fill sizes, in pixels across the diagram's whole extent
+const MIN_FILL_RESOLUTION = 512;
+const MAX_FILL_RESOLUTION = 2048;
+const imageCache = new Map<string, ImageBitmap>();
+const pending = new Map<string, { request: ChromaticityImageRequest; callbacks: ((bitmap: ImageBitmap) => void)[] }>();
+// Bitmaps mounted pickers are drawing, with how many draw each; eviction must not close these
+const displayed = new Map<ImageBitmap, number>();
+let worker: Worker | null = null;
+let workerFailed = false;
+
+function cacheImage(key: string, bitmap: ImageBitmap) {
+  imageCache.set(key, bitmap);
+  if (imageCache.size > MAX_CACHED_IMAGES) {
+    const oldestKey = imageCache.keys().next().value!;
+    const evicted = imageCache.get(oldestKey)!;
+    imageCache.delete(oldestKey);
+    if (!displayed.has(evicted)) evicted.close();
+  }
+  pending.get(key)?.callbacks.forEach((resolve) => resolve(bitmap));
+  pending.delete(key);
+}
+
+// Render on the main thread, for browsers without workers or after the worker failed
+function renderOnMainThread(key: string, request: ChromaticityImageRequest) {
+  try {
+    createImageBitmap(new ImageData(renderChromaticityImage(request), request.width, request.height))
+      .then((bitmap) => cacheImage(key, bitmap))
+      .catch((error) => {
+        pending.delete(key);
+        console.error('Error rendering chromaticity image:', error);
+      });
+  } catch (error) {
+    pending.delete(key);
+    console.error('Error rendering chromaticity image:', error);
+  }
+}
+
+// Lazily start the shared render worker; null where workers are unavailable or have failed
+function getWorker(): Worker | null {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+
+  try {
+    worker = new Worker(new URL('../utils/chromaticityImage.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ key: string; bitmap?: ImageBitmap; error?: string }>) => {
+      const { key, bitmap, error } = event.data;
+      if (bitmap) {
+        cacheImage(key, bitmap);
+        return;
+      }
+
+      console.error('Error rendering chromaticity image in worker:', error);
+      const request = pending.get(key)?.request;
+      if (request) renderOnMainThread(key, request);
+    };
+    // A worker that cannot load or deliver messages is abandoned; everything queued on it renders here
+    const abandonWorker = (event: Event) => {
+      console.error('Error in chromaticity image worker:', event);
+      worker?.terminate();
+      worker = null;
+      workerFailed = true;
+      pending.forEach(({ request }, key) => renderOnMainThread(key, request));
+    };
+    worker.onerror = abandonWorker;
+    worker.onmessageerror = abandonWorker;
+  } catch (error) {
+    workerFailed = true;
+    console.error('Error starting chromaticity image worker:', error);
+  }
+  return worker;
+}
+
+function requestImage(key: string, request: ChromaticityImageRequest, onReady: (bitmap: ImageBitmap) => void) {
+  const cached = imageCache.get(key);
+  if (cached) {
+    onReady(cached);
+    return;
+  }
+
+  const waiting = pending.get(key);
+  if (waiting) {
+    waiting.callbacks.push(onReady);
+    return;
+  }
+  pending.set(key, { request, callbacks: [onReady] });
+
+  const renderer = getWorker();
+  if (renderer) {
+    renderer.postMessage({ key, request });
+    return;
+  }
+
+  renderOnMainThread(key, request);
+}
+
+// Fill resolution for a diagram drawn this many device pixels across: the next power of two,
+// so resizing only re-renders when it crosses one
+export function getFillResolution(devicePixels: number): number {
+  const resolution = 2 ** Math.ceil(Math.log2(Math.max(1, devicePixels)));
+  return Math.min(MAX_FILL_RESOLUTION, Math.max(MIN_FILL_RESOLUTION, resolution));
+}
+
+// Diagram fill for a color space, observer and diagram mode, rendered once per resolution in a
+// worker and cached. It covers the mode's whole extent; callers place it for the current zoom and
+// pan with drawImage. While a new resolution renders, the previous fill of the same diagram is
+// returned with its own transform.
+export function useChromaticityImage(
+  colorSpace: ColorSpace,
+  observer: StandardObserver,
+  mode: DiagramMode,
+  resolution: number
+): ChromaticityImage | null {
+  const diagram = `${colorSpace}|${observer}|${mode}`;
+  const key = `${diagram}|${resolution}`;
+  const [image, setImage] = useState<(ChromaticityImage & { key: string; diagram: string }) | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const space = getRGBColorSpace(colorSpace);
+    const request: ChromaticityImageRequest = {
+      width: resolution,
+      height: resolution,
+      mode,
+      transform: { scale: resolution / DIAGRAM_MODES[mode].extent, originX: 0, originY: resolution },
+      boundary: getChromaticityBoundary(observer),
+      fromXYZ: space.fromXYZ,
+      toDisplay: multiplyMatrices(getRGBColorSpace('sRGB').fromXYZ, space.toXYZ)
+    };
+
+    requestImage(key, request, (bitmap) => {
+      if (!cancelled) setImage({ key, diagram, bitmap, transform: request.transform });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, diagram, colorSpace, observer, mode, resolution]);
+
+  // Keep the bitmap on screen out of reach of cache eviction
+  const current = image?.diagram === diagram ? image : null;
+  useEffect(() => {
+    if (!current) return;
+    const { bitmap } = current;
+    displayed.set(bitmap, (displayed.get(bitmap) ?? 0) + 1);
+    return () => {
+      const count = (displayed.get(bitmap) ?? 1) - 1;
+      if (count > 0) {
+        displayed.set(bitmap, count);
+        return;
+      }
+      displayed.delete(bitmap);
+      // Evicted while on screen: nothing else will close it
+      if (![...imageCache.values()].includes(bitmap)) bitmap.close();
+    };
+  }, [current]);
+
+  return current;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+function currentPixelRatio(): number {
+  return typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+}
+
+// Device pixels per CSS pixel, updated when the window moves to another screen or is zoomed
+export function useDevicePixelRatio(): number {
+  const [ratio, setRatio] = useState(currentPixelRatio);
+
+  useEffect(() => {
+    // A resolution query only matches the current ratio, so it fires once the ratio changes
+    const query = window.matchMedia(`(resolution: ${ratio}dppx)`);
+    const onChange = () => setRatio(currentPixelRatio());
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [ratio]);
+
+  return ratio;
+}
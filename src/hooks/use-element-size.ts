@@ -0,0 +1,27 @@
+import { RefObject, useEffect, useState } from 'react';
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+// Content-box size of an element, tracked with a ResizeObserver; null until first measured
+export function useElementSize(ref: RefObject<HTMLElement | null>): ElementSize | null {
+  const [size, setSize] = useState<ElementSize | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize((previous) =>
+        previous && previous.width === width && previous.height === height ? previous : { width, height }
+      );
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CAM16Surround,
+  CAM16ToXYZ,
+  CAM16ToUCS,
+  XYZToCAM16,
+  createCAM16Environment
+} from './cam16';
+import { XYZColor } from './colorConversions';
+
+// Reference case from colour-science's CAM16 implementation: sample XYZ (19.01, 20.00, 21.78),
+// white (95.05, 100.00, 108.88), La = 318.31 cd/m², Yb = 20, average surround
+const REFERENCE_ENVIRONMENT = createCAM16Environment({
+  whitePoint: { x: 0.9505, y: 1, z: 1.0888 },
+  adaptingLuminance: 318.31,
+  backgroundLuminance: 20,
+  surround: 'average'
+});
+const REFERENCE_SAMPLE: XYZColor = { x: 0.1901, y: 0.2, z: 0.2178 };
+
+const SURROUNDS: CAM16Surround[] = ['average', 'dim', 'dark'];
+
+const SAMPLES: XYZColor[] = [
+  { x: 0.4124, y: 0.2126, z: 0.0193 },
+  { x: 0.3576, y: 0.7152, z: 0.1192 },
+  { x: 0.1805, y: 0.0722, z: 0.9505 },
+  { x: 0.2034, y: 0.214, z: 0.233 },
+  { x: 0.05, y: 0.03, z: 0.2 }
+];
+
+describe('XYZToCAM16', () => {
+  it('matches the colour-science reference correlates', () => {
+    const cam = XYZToCAM16(REFERENCE_SAMPLE, REFERENCE_ENVIRONMENT);
+    expect(cam.J).toBeCloseTo(41.73120791, 4);
+    expect(cam.C).toBeCloseTo(0.10335574, 4);
+    expect(cam.h).toBeCloseTo(217.06795977, 2);
+    expect(cam.M).toBeCloseTo(0.10743676, 4);
+    expect(cam.s).toBeCloseTo(2.34501507, 3);
+    expect(cam.Q).toBeCloseTo(195.37170899, 3);
+  });
+
+  it('gives the adopted white J = 100, and no chroma when discounting the illuminant', () => {
+    const white = { x: 0.9505, y: 1, z: 1.0888 };
+    expect(XYZToCAM16(white, REFERENCE_ENVIRONMENT).J).toBeCloseTo(100, 6);
+
+    const discounted = createCAM16Environment({ ...REFERENCE_ENVIRONMENT.conditions, discounting: true });
+    expect(XYZToCAM16(white, discounted).C).toBeCloseTo(0, 6);
+  });
+});
+
+describe('CAM16ToXYZ', () => {
+  describe.each(SURROUNDS)('%s surround', (surround) => {
+    const environment = createCAM16Environment({
+      whitePoint: { x: 0.95047, y: 1, z: 1.08883 },
+      adaptingLuminance: 64,
+      backgroundLuminance: 20,
+      surround
+    });
+
+    it.each(SAMPLES)('inverts the forward model for %o', (xyz) => {
+      const roundTrip = CAM16ToXYZ(XYZToCAM16(xyz, environment), environment);
+      expect(roundTrip.x).toBeCloseTo(xyz.x, 8);
+      expect(roundTrip.y).toBeCloseTo(xyz.y, 8);
+      expect(roundTrip.z).toBeCloseTo(xyz.z, 8);
+    });
+  });
+});
+
+describe('CAM16ToUCS', () => {
+  it('compresses lightness and colourfulness', () => {
+    const cam = XYZToCAM16(REFERENCE_SAMPLE, REFERENCE_ENVIRONMENT);
+    const ucs = CAM16ToUCS(cam);
+    expect(ucs.J).toBeCloseTo((1.7 * cam.J) / (1 + 0.007 * cam.J), 10);
+    const colourfulness = Math.log(1 + 0.0228 * cam.M) / 0.0228;
+    expect(Math.hypot(ucs.a, ucs.b)).toBeCloseTo(colourfulness, 10);
+  });
+});
@@ -0,0 +1,216 @@
+// CAM16 colour appearance model (Li et al. 2017) and CAM16-UCS
+import { XYZColor, D65_WHITE_XYZ } from './colorConversions';
+import { Matrix3, multiplyMatrixVector, invertMatrix } from './matrix';
+
+export type CAM16Surround = 'average' | 'dim' | 'dark';
+
+export interface CAM16ViewingConditions {
+  whitePoint: XYZColor; // Y = 1
+  adaptingLuminance: number; // La, cd/m²
+  backgroundLuminance: number; // Yb, relative to white (0-100)
+  surround: CAM16Surround;
+  discounting?: boolean; // full adaptation (D = 1)
+}
+
+// Appearance correlates
+export interface CAM16Color {
+  J: number; // lightness
+  C: number; // chroma
+  h: number; // hue angle
+  M: number; // colourfulness
+  s: number; // saturation
+  Q: number; // brightness
+}
+
+export interface CAM16UCSColor {
+  J: number;
+  a: number;
+  b: number;
+}
+
+// Values derived once from the viewing conditions
+export interface CAM16Environment {
+  conditions: CAM16ViewingConditions;
+  F: number;
+  c: number;
+  Nc: number;
+  D: number;
+  FL: number;
+  n: number;
+  z: number;
+  Nbb: number;
+  Ncb: number;
+  Aw: number;
+  dRGB: XYZColor;
+}
+
+// Surround parameters [F, c, Nc]
+const SURROUND_PARAMETERS: Record<CAM16Surround, [number, number, number]> = {
+  average: [1.0, 0.69, 1.0],
+  dim: [0.9, 0.59, 0.9],
+  dark: [0.8, 0.525, 0.8]
+};
+
+// Default: D65 white, 64 lux ambient (La = 64 / π × 0.2), Yb = 20, average surround
+export const DEFAULT_CAM16_VIEWING_CONDITIONS: CAM16ViewingConditions = {
+  whitePoint: D65_WHITE_XYZ,
+  adaptingLuminance: (64 / Math.PI) * 0.2,
+  backgroundLuminance: 20,
+  surround: 'average',
+  discounting: false
+};
+
+const M16: Matrix3 = [
+  [0.401288, 0.650173, -0.051461],
+  [-0.250268, 1.204414, 0.045854],
+  [-0.002079, 0.048952, 0.953127]
+];
+
+const M16_INVERSE = invertMatrix(M16);
+
+// Post-adaptation non-linear compression
+function adaptChannel(value: number, FL: number): number {
+  const p = Math.pow((FL * Math.abs(value)) / 100, 0.42);
+  return (Math.sign(value) * 400 * p) / (p + 27.13) + 0.1;
+}
+
+// Inverse of adaptChannel
+function unadaptChannel(value: number, FL: number): number {
+  const v = value - 0.1;
+  const magnitude = Math.abs(v);
+  return Math.sign(v) * (100 / FL) * Math.pow((27.13 * magnitude) / (400 - magnitude), 1 / 0.42);
+}
+
+// Precompute the viewing condition dependent terms
+export function createCAM16Environment(
+  conditions: CAM16ViewingConditions = DEFAULT_CAM16_VIEWING_CONDITIONS
+): CAM16Environment {
+  const [F, c, Nc] = SURROUND_PARAMETERS[conditions.surround];
+  const La = conditions.adaptingLuminance;
+  const white = {
+    x: conditions.whitePoint.x * 100,
+    y: conditions.whitePoint.y * 100,
+    z: conditions.whitePoint.z * 100
+  };
+
+  const D = conditions.discounting
+    ? 1
+    : Math.max(0, Math.min(1, F * (1 - (1 / 3.6) * Math.exp((-La - 42) / 92))));
+
+  const k = 1 / (5 * La + 1);
+  const k4 = k * k * k * k;
+  const FL = 0.2 * k4 * (5 * La) + 0.1 * (1 - k4) * (1 - k4) * Math.cbrt(5 * La);
+
+  const n = conditions.backgroundLuminance / white.y;
+  const z = 1.48 + Math.sqrt(n);
+  const Nbb = 0.725 * Math.pow(n, -0.2);
+  const Ncb = Nbb;
+
+  const rgbW = multiplyMatrixVector(M16, white);
+  const dRGB = {
+    x: D * (white.y / rgbW.x) + 1 - D,
+    y: D * (white.y / rgbW.y) + 1 - D,
+    z: D * (white.y / rgbW.z) + 1 - D
+  };
+
+  const Rw = adaptChannel(dRGB.x * rgbW.x, FL);
+  const Gw = adaptChannel(dRGB.y * rgbW.y, FL);
+  const Bw = adaptChannel(dRGB.z * rgbW.z, FL);
+  const Aw = (2 * Rw + Gw + 0.05 * Bw - 0.305) * Nbb;
+
+  return { conditions, F, c, Nc, D, FL, n, z, Nbb, Ncb, Aw, dRGB };
+}
+
+const DEFAULT_ENVIRONMENT = createCAM16Environment();
+
+// Convert XYZ (Y in 0-1) to CAM16 appearance correlates
+export function XYZToCAM16(xyz: XYZColor, environment: CAM16Environment = DEFAULT_ENVIRONMENT): CAM16Color {
+  const { c, Nc, FL, n, z, Nbb, Ncb, Aw, dRGB } = environment;
+  const rgb = multiplyMatrixVector(M16, { x: xyz.x * 100, y: xyz.y * 100, z: xyz.z * 100 });
+
+  const Ra = adaptChannel(dRGB.x * rgb.x, FL);
+  const Ga = adaptChannel(dRGB.y * rgb.y, FL);
+  const Ba = adaptChannel(dRGB.z * rgb.z, FL);
+
+  const a = Ra - (12 * Ga) / 11 + Ba / 11;
+  const b = (Ra + Ga - 2 * Ba) / 9;
+  const hRad = Math.atan2(b, a);
+  const h = ((hRad * 180) / Math.PI + 360) % 360;
+
+  const et = 0.25 * (Math.cos((h * Math.PI) / 180 + 2) + 3.8);
+  const A = (2 * Ra + Ga + 0.05 * Ba - 0.305) * Nbb;
+  const J = 100 * Math.pow(Math.max(0, A / Aw), c * z);
+  const Q = (4 / c) * Math.sqrt(J / 100) * (Aw + 4) * Math.pow(FL, 0.25);
+
+  const t = ((50000 / 13) * Nc * Ncb * et * Math.sqrt(a * a + b * b)) / (Ra + Ga + (21 / 20) * Ba);
+  const C = Math.pow(t, 0.9) * Math.sqrt(J / 100) * Math.pow(1.64 - Math.pow(0.29, n), 0.73);
+  const M = C * Math.pow(FL, 0.25);
+  const s = Q > 0 ? 100 * Math.sqrt(M / Q) : 0;
+
+  return { J, C, h, M, s, Q };
+}
+
+// Convert CAM16 lightness, chroma and hue back to XYZ (Y in 0-1)
+export function CAM16ToXYZ(
+  cam: Pick<CAM16Color, 'J' | 'C' | 'h'>,
+  environment: CAM16Environment = DEFAULT_ENVIRONMENT
+): XYZColor {
+  const { c, Nc, FL, n, z, Nbb, Ncb, Aw, dRGB } = environment;
+  const J = Math.max(0, cam.J);
+  if (J === 0) return { x: 0, y: 0, z: 0 };
+
+  const hRad = (cam.h * Math.PI) / 180;
+  const cosH = Math.cos(hRad);
+  const sinH = Math.sin(hRad);
+
+  const t = Math.pow(Math.max(0, cam.C) / (Math.sqrt(J / 100) * Math.pow(1.64 - Math.pow(0.29, n), 0.73)), 1 / 0.9);
+  const et = 0.25 * (Math.cos(hRad + 2) + 3.8);
+  const A = Aw * Math.pow(J / 100, 1 / (c * z));
+
+  const p2 = A / Nbb + 0.305;
+  const p3 = 21 / 20;
+
+  let a = 0;
+  let b = 0;
+  if (t > 0) {
+    const p1 = ((50000 / 13) * Nc * Ncb * et) / t;
+    if (Math.abs(sinH) >= Math.abs(cosH)) {
+      const p4 = p1 / sinH;
+      b = (p2 * (2 + p3) * (460 / 1403)) /
+        (p4 + (2 + p3) * (220 / 1403) * (cosH / sinH) - 27 / 1403 + p3 * (6300 / 1403));
+      a = (b * cosH) / sinH;
+    } else {
+      const p5 = p1 / cosH;
+      a = (p2 * (2 + p3) * (460 / 1403)) /
+        (p5 + (2 + p3) * (220 / 1403) - (27 / 1403 - p3 * (6300 / 1403)) * (sinH / cosH));
+      b = (a * sinH) / cosH;
+    }
+  }
+
+  const Ra = (460 * p2 + 451 * a + 288 * b) / 1403;
+  const Ga = (460 * p2 - 891 * a - 261 * b) / 1403;
+  const Ba = (460 * p2 - 220 * a - 6300 * b) / 1403;
+
+  const rgb = {
+    x: unadaptChannel(Ra, FL) / dRGB.x,
+    y: unadaptChannel(Ga, FL) / dRGB.y,
+    z: unadaptChannel(Ba, FL) / dRGB.z
+  };
+  const xyz = multiplyMatrixVector(M16_INVERSE, rgb);
+
+  return { x: xyz.x / 100, y: xyz.y / 100, z: xyz.z / 100 };
+}
+
+// Convert CAM16 correlates to CAM16-UCS J'a'b'
+export function CAM16ToUCS(cam: CAM16Color): CAM16UCSColor {
+  const J = (1.7 * cam.J) / (1 + 0.007 * cam.J);
+  const M = Math.log(1 + 0.0228 * cam.M) / 0.0228;
+  const hRad = (cam.h * Math.PI) / 180;
+
+  return { J, a: M * Math.cos(hRad), b: M * Math.sin(hRad) };
+}
+
+// Convert XYZ (Y in 0-1) to CAM16-UCS
+export function XYZToCAM16UCS(xyz: XYZColor, environment: CAM16Environment = DEFAULT_ENVIRONMENT): CAM16UCSColor {
+  return CAM16ToUCS(XYZToCAM16(xyz, environment));
+}
@@ -0,0 +1,80 @@
+// Chromatic adaptation transforms between arbitrary reference whites
+import { XYZColor } from './colorConversions';
+import {
+  Matrix3,
+  multiplyMatrixVector,
+  multiplyMatrices,
+  invertMatrix,
+  diagonalMatrix
+} from './matrix';
+
+export type AdaptationMethod = 'Bradford' | 'CAT02' | 'CAT16' | 'VonKries';
+
+export const ADAPTATION_METHODS: { value: AdaptationMethod; label: string }[] = [
+  { value: 'Bradford', label: 'Bradford' },
+  { value: 'CAT02', label: 'CAT02' },
+  { value: 'CAT16', label: 'CAT16' },
+  { value: 'VonKries', label: 'von Kries' }
+];
+
+// Cone response matrices (XYZ -> LMS)
+const CONE_RESPONSE_MATRICES: Record<AdaptationMethod, Matrix3> = {
+  Bradford: [
+    [0.8951, 0.2664, -0.1614],
+    [-0.7502, 1.7135, 0.0367],
+    [0.0389, -0.0685, 1.0296]
+  ],
+  CAT02: [
+    [0.7328, 0.4296, -0.1624],
+    [-0.7036, 1.6975, 0.0061],
+    [0.0030, 0.0136, 0.9834]
+  ],
+  CAT16: [
+    [0.401288, 0.650173, -0.051461],
+    [-0.250268, 1.204414, 0.045854],
+    [-0.002079, 0.048952, 0.953127]
+  ],
+  // Hunt-Pointer-Estevez, normalized to D65
+  VonKries: [
+    [0.40024, 0.70760, -0.08081],
+    [-0.22630, 1.16532, 0.04570],
+    [0.00000, 0.00000, 0.91822]
+  ]
+};
+
+// Build the matrix that maps XYZ under one white to XYZ under another
+export function getAdaptationMatrix(
+  sourceWhite: XYZColor,
+  destinationWhite: XYZColor,
+  method: AdaptationMethod = 'Bradford'
+): Matrix3 {
+  const m = CONE_RESPONSE_MATRICES[method];
+  const source = multiplyMatrixVector(m, sourceWhite);
+  const destination = multiplyMatrixVector(m, destinationWhite);
+
+  const scale = diagonalMatrix({
+    x: destination.x / source.x,
+    y: destination.y / source.y,
+    z: destination.z / source.z
+  });
+
+  return multiplyMatrices(invertMatrix(m), multiplyMatrices(scale, m));
+}
+
+// Adapt an XYZ color from one reference white to another
+export function adaptXYZ(
+  xyz: XYZColor,
+  sourceWhite: XYZColor,
+  destinationWhite: XYZColor,
+  method: AdaptationMethod = 'Bradford'
+): XYZColor {
+  if (
+    sourceWhite.x === destinationWhite.x &&
+    sourceWhite.y === destinationWhite.y &&
+    sourceWhite.z === destinationWhite.z
+  ) {
+    return xyz;
+  }
+
+  return multiplyMatrixVector(getAdaptationMatrix(sourceWhite, destinationWhite, method), xyz);
+}
@@ -0,0 +1,100 @@
+// Per-pixel rendering of the area inside the spectral locus
+import { Matrix3 } from './matrix';
+import { ChromaticityPoint } from './spectralLocus';
+import { getTransferFunction } from './transferFunctions';
+import { DiagramMode, DiagramPoint, DiagramTransform, xyToDiagram, diagramToXY } from './diagramCoordinates';
+
+export interface ChromaticityImageRequest {
+  width: number;
+  height: number;
+  mode: DiagramMode;
+  transform: DiagramTransform;
+  boundary: ChromaticityPoint[]; // xy
+  fromXYZ: Matrix3; // XYZ -> linear RGB of the selected space
+  toDisplay: Matrix3; // linear RGB of the selected space -> linear sRGB
+}
+
+// Weight of the gray mixed into out-of-gamut chromaticities
+const OUT_OF_GAMUT_DESATURATION = 0.55;
+// Hatch period and darkening over out-of-gamut areas
+const HATCH_SPACING = 6;
+const HATCH_SHADE = 0.75;
+
+// x positions where a horizontal line crosses the boundary, sorted
+function scanlineCrossings(boundary: DiagramPoint[], y: number): number[] {
+  const crossings: number[] = [];
+
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const a = boundary[i];
+    const b = boundary[j];
+    if ((a.y > y) !== (b.y > y)) {
+      crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+    }
+  }
+
+  return crossings.sort((p, q) => p - q);
+}
+
+// RGBA pixels: each chromaticity at the highest luminance the selected space reaches,
+// desaturated and hatched where the space cannot reproduce it
+export function renderChromaticityImage(request: ChromaticityImageRequest): Uint8ClampedArray {
+  const { width, height, mode, transform, fromXYZ: m, toDisplay: d } = request;
+  const { scale, originX, originY } = transform;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const encode = getTransferFunction('sRGB').encode;
+
+  // Projective maps keep straight edges straight, so the boundary converts point by point
+  const boundary = request.boundary.map((point) => xyToDiagram(point.x, point.y, mode));
+
+  for (let py = 0; py < height; py++) {
+    const row = (originY - py - 0.5) / scale;
+    const crossings = scanlineCrossings(boundary, row);
+
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const start = Math.max(0, Math.ceil(originX + crossings[k] * scale - 0.5));
+      const end = Math.min(width - 1, Math.floor(originX + crossings[k + 1] * scale - 0.5));
+
+      for (let px = start; px <= end; px++) {
+        const { x, y } = diagramToXY({ x: (px + 0.5 - originX) / scale, y: row }, mode);
+        if (y <= 0) continue;
+
+        const X = x / y;
+        const Z = (1 - x - y) / y;
+
+        let r = m[0][0] * X + m[0][1] + m[0][2] * Z;
+        let g = m[1][0] * X + m[1][1] + m[1][2] * Z;
+        let b = m[2][0] * X + m[2][1] + m[2][2] * Z;
+        const inGamut = r >= 0 && g >= 0 && b >= 0;
+
+        // Clip to the gamut boundary, then scale up to full brightness
+        r = Math.max(0, r);
+        g = Math.max(0, g);
+        b = Math.max(0, b);
+        const peak = Math.max(r, g, b) || 1;
+        r /= peak;
+        g /= peak;
+        b /= peak;
+
+        if (!inGamut) {
+          const gray = (r + g + b) / 3;
+          r += (gray - r) * OUT_OF_GAMUT_DESATURATION;
+          g += (gray - g) * OUT_OF_GAMUT_DESATURATION;
+          b += (gray - b) * OUT_OF_GAMUT_DESATURATION;
+          if ((px + py) % HATCH_SPACING === 0) {
+            r *= HATCH_SHADE;
+            g *= HATCH_SHADE;
+            b *= HATCH_SHADE;
+          }
+        }
+
+        const index = (py * width + px) * 4;
+        pixels[index] = encode(Math.min(1, Math.max(0, d[0][0] * r + d[0][1] * g + d[0][2] * b))) * 255;
+        pixels[index + 1] = encode(Math.min(1, Math.max(0, d[1][0] * r + d[1][1] * g + d[1][2] * b))) * 255;
+        pixels[index + 2] = encode(Math.min(1, Math.max(0, d[2][0] * r + d[2][1] * g + d[2][2] * b))) * 255;
+        pixels[index + 3] = 255;
+      }
+    }
+  }
+
+  return pixels;
+}
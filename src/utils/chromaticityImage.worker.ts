@@ -0,0 +1,14 @@
+// Renders chromaticity diagram fills off the main thread
+import { ChromaticityImageRequest, renderChromaticityImage } from './chromaticityImage';
+
+self.onmessage = async (event: MessageEvent<{ key: string; request: ChromaticityImageRequest }>) => {
+  const { key, request } = event.data;
+  try {
+    const pixels = renderChromaticityImage(request);
+    const bitmap = await createImageBitmap(new ImageData(pixels, request.width, request.height));
+    self.postMessage({ key, bitmap }, { transfer: [bitmap] });
+  } catch (error) {
+    // Report back so the main thread can stop waiting and render the fill itself
+    self.postMessage({ key, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ColorModel,
+  LABReference,
+  XYZColor,
+  colorModelToXYZ,
+  XYZToColorModel,
+  encodedRGBToXYZ,
+  XYZToEncodedRGB,
+  RGBColor,
+  RGBToHSV,
+  HSVToRGB,
+  RGBToHWB,
+  HWBToRGB,
+  XYZToLUV,
+  LUVToXYZ,
+  LUVToLCHuv,
+  LCHuvToLUV,
+  RGBToOkhsv,
+  OkhsvToRGB,
+  RGBToOkhsl,
+  OkhslToRGB,
+  RGBToHSLuv,
+  HSLuvToRGB,
+  generateCSSLab,
+  generateCSSLCH
+} from './colorConversions';
+import { getIlluminantXYZ } from './illuminants';
+import { parseCSSColor } from './cssColorParser';
+
+const MODELS: ColorModel[] = ['HSL', 'LAB', 'LCH', 'OKLab', 'OKLCH', 'xyY'];
+
+// Channel indices of hue and of the chroma (or saturation) it is measured against
+const HUE_CHANNELS: Partial<Record<ColorModel, { hue: number; chroma: number }>> = {
+  HSL: { hue: 0, chroma: 1 },
+  LCH: { hue: 2, chroma: 1 },
+  OKLCH: { hue: 2, chroma: 1 }
+};
+
+// Encoded sRGB samples: primaries and secondaries on the clipped gamut edge, neutrals and near-black
+const SAMPLES: [string, number, number, number][] = [
+  ['red', 255, 0, 0],
+  ['green', 0, 255, 0],
+  ['blue', 0, 0, 255],
+  ['cyan', 0, 255, 255],
+  ['magenta', 255, 0, 255],
+  ['yellow', 255, 255, 0],
+  ['white', 255, 255, 255],
+  ['mid gray', 128, 128, 128],
+  ['orange', 230, 120, 20],
+  ['teal', 20, 140, 150],
+  ['near-black gray', 1, 1, 1],
+  ['near-black blue', 0, 0, 1],
+  ['near-black red', 2, 0, 1]
+];
+
+const REFERENCES: [string, LABReference | undefined][] = [
+  ['default white', undefined],
+  ['D50 via Bradford', { white: getIlluminantXYZ('D50'), method: 'Bradford' }]
+];
+
+// Absolute tolerance scaled to the magnitude of the expected value
+function expectClose(actual: number, expected: number, tolerance = 1e-9) {
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(tolerance * Math.max(1, Math.abs(expected)));
+}
+
+// Hue has no meaning for neutrals, so compare the distance it moves the color at its chroma
+function expectHueClose(actual: number, expected: number, chroma: number) {
+  const difference = Math.abs(((actual - expected + 540) % 360) - 180);
+  expectClose((difference * Math.PI / 180) * chroma, 0);
+}
+
+function expectXYZClose(actual: XYZColor, expected: XYZColor) {
+  expectClose(actual.x, expected.x);
+  expectClose(actual.y, expected.y);
+  expectClose(actual.z, expected.z);
+}
+
+describe.each(REFERENCES)('color model round trips (%s)', (_, labReference) => {
+  describe.each(MODELS)('%s', (model) => {
+    it.each(SAMPLES)('XYZ -> model -> XYZ for %s', (_name, r, g, b) => {
+      const xyz = encodedRGBToXYZ({ r, g, b }, 'sRGB');
+      const values = XYZToColorModel(xyz, model, 'sRGB', labReference);
+      expectXYZClose(colorModelToXYZ(model, values, 'sRGB', labReference), xyz);
+    });
+
+    it.each(SAMPLES)('model -> XYZ -> model for %s', (_name, r, g, b) => {
+      const values = XYZToColorModel(encodedRGBToXYZ({ r, g, b }, 'sRGB'), model, 'sRGB', labReference);
+      const roundTrip = XYZToColorModel(colorModelToXYZ(model, values, 'sRGB', labReference), model, 'sRGB', labReference);
+      const hueChannel = HUE_CHANNELS[model];
+      roundTrip.forEach((value, index) => {
+        if (hueChannel?.hue === index) {
+          expectHueClose(value, values[index], values[hueChannel.chroma]);
+        } else {
+          expectClose(value, values[index]);
+        }
+      });
+    });
+  });
+});
+
+describe('color model round trips at black', () => {
+  it.each(MODELS)('%s maps black back to black', (model) => {
+    const black = { x: 0, y: 0, z: 0 };
+    expectXYZClose(colorModelToXYZ(model, XYZToColorModel(black, model)), black);
+  });
+});
+
+// Models defined on encoded sRGB (0-255): forward, inverse, tolerance, and hue/chroma channels
+interface RGBModel {
+  toValues: (rgb: RGBColor) => number[];
+  fromValues: (values: number[]) => RGBColor;
+  tolerance: number;
+  hue: { hue: number; chroma: number };
+}
+
+const luvOf = (rgb: RGBColor) => XYZToLUV(encodedRGBToXYZ(rgb, 'sRGB'));
+const fromLUV = (l: number, u: number, v: number) => XYZToEncodedRGB(LUVToXYZ({ l, u, v }), 'sRGB');
+
+// Okhsv/Okhsl refine the gamut boundary with a single Halley step, so they invert to about 1e-4
+const RGB_MODELS: [string, RGBModel][] = [
+  ['HSV', {
+    toValues: (rgb) => { const { h, s, v } = RGBToHSV(rgb); return [h, s, v]; },
+    fromValues: ([h, s, v]) => HSVToRGB({ h, s, v }),
+    tolerance: 1e-9,
+    hue: { hue: 0, chroma: 1 }
+  }],
+  ['HWB', {
+    toValues: (rgb) => { const { h, w, b } = RGBToHWB(rgb); return [h, w, b]; },
+    fromValues: ([h, w, b]) => HWBToRGB({ h, w, b }),
+    tolerance: 1e-9,
+    hue: { hue: 0, chroma: 1 }
+  }],
+  ['LUV', {
+    toValues: (rgb) => { const { l, u, v } = luvOf(rgb); return [l, u, v]; },
+    fromValues: ([l, u, v]) => fromLUV(l, u, v),
+    tolerance: 1e-9,
+    hue: { hue: -1, chroma: -1 }
+  }],
+  ['LCHuv', {
+    toValues: (rgb) => { const { l, c, h } = LUVToLCHuv(luvOf(rgb)); return [l, c, h]; },
+    fromValues: ([l, c, h]) => { const { u, v } = LCHuvToLUV({ l, c, h }); return fromLUV(l, u, v); },
+    tolerance: 1e-9,
+    hue: { hue: 2, chroma: 1 }
+  }],
+  ['Okhsv', {
+    toValues: (rgb) => { const { h, s, v } = RGBToOkhsv(rgb); return [h, s, v]; },
+    fromValues: ([h, s, v]) => OkhsvToRGB({ h, s, v }),
+    tolerance: 1e-3,
+    hue: { hue: 0, chroma: 1 }
+  }],
+  ['Okhsl', {
+    toValues: (rgb) => { const { h, s, l } = RGBToOkhsl(rgb); return [h, s, l]; },
+    fromValues: ([h, s, l]) => OkhslToRGB({ h, s, l }),
+    tolerance: 1e-3,
+    hue: { hue: 0, chroma: 1 }
+  }],
+  ['HSLuv', {
+    toValues: (rgb) => { const { h, s, l } = RGBToHSLuv(rgb); return [h, s, l]; },
+    fromValues: ([h, s, l]) => HSLuvToRGB({ h, s, l }),
+    tolerance: 1e-9,
+    hue: { hue: 0, chroma: 1 }
+  }]
+];
+
+describe.each(RGB_MODELS)('sRGB model round trips (%s)', (_, model) => {
+  it.each(SAMPLES)('RGB -> model -> RGB for %s', (_name, r, g, b) => {
+    const back = model.fromValues(model.toValues({ r, g, b }));
+    expectClose(back.r, r, model.tolerance);
+    expectClose(back.g, g, model.tolerance);
+    expectClose(back.b, b, model.tolerance);
+  });
+
+  it.each(SAMPLES)('model -> RGB -> model for %s', (_name, r, g, b) => {
+    const values = model.toValues({ r, g, b });
+    const roundTrip = model.toValues(model.fromValues(values));
+    roundTrip.forEach((value, index) => {
+      if (index === model.hue.hue) {
+        const difference = Math.abs(((value - values[index] + 540) % 360) - 180);
+        expectClose((difference * Math.PI / 180) * values[model.hue.chroma] / 100, 0, model.tolerance);
+      } else {
+        expectClose(value, values[index], model.tolerance);
+      }
+    });
+  });
+});
+
+describe('Okhsv, Okhsl and HSLuv reference values', () => {
+  // Okhsv/Okhsl from Ottosson's reference implementation, HSLuv from hsluv.org's snapshot
+  it.each([
+    ['red', [255, 0, 0], [29.2339, 99.9522, 100], [29.2339, 100, 56.8085], [12.1771, 100, 53.2371]],
+    ['green', [0, 255, 0], [142.4953, 100, 100], [142.4953, 100, 84.4529], [127.7150, 100, 87.7355]],
+    ['blue', [0, 0, 255], [264.0520, 99.9991, 100], [264.0520, 100, 36.6565], [265.8743, 100, 32.3009]]
+  ] as [string, number[], number[], number[], number[]][])('%s', (_name, [r, g, b], okhsv, okhsl, hsluv) => {
+    const check = (actual: { h: number; s: number }, third: number, expected: number[]) => {
+      expect(actual.h).toBeCloseTo(expected[0], 3);
+      expect(actual.s).toBeCloseTo(expected[1], 3);
+      expect(third).toBeCloseTo(expected[2], 3);
+    };
+    const hsv = RGBToOkhsv({ r, g, b });
+    const hsl = RGBToOkhsl({ r, g, b });
+    const uv = RGBToHSLuv({ r, g, b });
+    check(hsv, hsv.v, okhsv);
+    check(hsl, hsl.l, okhsl);
+    check(uv, uv.l, hsluv);
+  });
+
+  it('keeps white exactly white', () => {
+    const white = { r: 255, g: 255, b: 255 };
+    expect(RGBToOkhsv(white).v).toBeCloseTo(100, 5);
+    expect(RGBToOkhsv(white).s).toBeCloseTo(0, 3);
+    expect(RGBToOkhsl(white)).toMatchObject({ s: 0 });
+    expect(RGBToOkhsl(white).l).toBeCloseTo(100, 5);
+    const fromOkhsv = OkhsvToRGB(RGBToOkhsv(white));
+    [fromOkhsv.r, fromOkhsv.g, fromOkhsv.b].forEach((channel) => expect(channel).toBeCloseTo(255, 3));
+  });
+});
+
+describe('CSS lab()/lch() serialisation', () => {
+  it.each(SAMPLES)('parses back to the same XYZ for %s', (_name, r, g, b) => {
+    const xyz = encodedRGBToXYZ({ r, g, b }, 'sRGB');
+    [generateCSSLab(xyz), generateCSSLCH(xyz)].forEach((text) => {
+      const parsed = parseCSSColor(text).xyz;
+      expect(parsed.x).toBeCloseTo(xyz.x, 3);
+      expect(parsed.y).toBeCloseTo(xyz.y, 3);
+      expect(parsed.z).toBeCloseTo(xyz.z, 3);
+    });
+  });
+
+  it('uses D50 whatever white the picker shows', () => {
+    expect(generateCSSLab(encodedRGBToXYZ({ r: 255, g: 255, b: 255 }, 'sRGB'))).toBe('lab(100.00% 0.00 0.00)');
+  });
+
+  it('appends alpha when translucent', () => {
+    expect(parseCSSColor(generateCSSLCH({ x: 0.3, y: 0.3, z: 0.3 }, 0.25)).alpha).toBeCloseTo(0.25, 6);
+  });
+});
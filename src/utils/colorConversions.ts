@@ -1,4 +1,9 @@
 // Color space conversion utilities for chromaticity diagram
+import { AdaptationMethod, adaptXYZ } from './chromaticAdaptation';
+import { multiplyMatrixVector } from './matrix';
+import { getRGBColorSpace } from './rgbColorSpaces';
+import { TRANSFER_FUNCTIONS } from './transferFunctions';
+
 export interface XYZColor {
   x: number;
   y: number;
@@ -15,6 +20,7 @@ export interface RGBColor {
   r: number;
   g: number;
   b: number;
+  alpha?: number; // 0-1, opaque when omitted
 }
 
 export interface LABColor {
@@ -23,6 +29,18 @@ export interface LABColor {
   b: number;
 }
 
+export interface LCHColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export interface OKLabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
 export interface OKLCHColor {
   l: number;
   c: number;
@@ -35,31 +53,86 @@ export interface HSLColor {
   l: number;
 }
 
-export type ColorSpace = 'sRGB' | 'P3' | 'Rec2020' | 'XYZ' | 'LAB' | 'OKLCH';
+export interface HSVColor {
+  h: number;
+  s: number;
+  v: number;
+}
+
+export interface HWBColor {
+  h: number;
+  w: number;
+  b: number;
+}
+
+export interface LUVColor {
+  l: number;
+  u: number;
+  v: number;
+}
+
+export interface LCHuvColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export interface OkhsvColor {
+  h: number;
+  s: number;
+  v: number;
+}
+
+export interface OkhslColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+export interface HSLuvColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// Id of a color space in the RGB color space registry
+export type ColorSpace = string;
+
+// Color models the picker can display and be driven from
+export type ColorModel = 'HSL' | 'LAB' | 'LCH' | 'OKLab' | 'OKLCH' | 'xyY';
+
+export type ColorModelValues = [number, number, number];
+
+export const COLOR_MODEL_CHANNELS: Record<ColorModel, [string, string, string]> = {
+  HSL: ['H', 'S', 'L'],
+  LAB: ['L', 'a', 'b'],
+  LCH: ['L', 'C', 'H'],
+  OKLab: ['L', 'a', 'b'],
+  OKLCH: ['L', 'C', 'H'],
+  xyY: ['x', 'y', 'Y']
+};
 
 // CIE 1931 XYZ color matching functions (simplified)
 export const D65_WHITE_POINT = { x: 0.3127, y: 0.3290, Y: 1.0 };
 
-// sRGB working space matrix
-const sRGB_MATRIX = [
-  [3.2406, -1.5372, -0.4986],
-  [-0.9689, 1.8758, 0.0415],
-  [0.0557, -0.2040, 1.0570]
-];
+// D65 white as XYZ, the reference white of the RGB working spaces
+export const D65_WHITE_XYZ: XYZColor = {
+  x: D65_WHITE_POINT.x / D65_WHITE_POINT.y,
+  y: 1,
+  z: (1 - D65_WHITE_POINT.x - D65_WHITE_POINT.y) / D65_WHITE_POINT.y
+};
 
-// P3 working space matrix
-const P3_MATRIX = [
-  [2.4934, -0.9313, -0.4027],
-  [-0.8295, 1.7627, 0.0236],
-  [0.0358, -0.0761, 0.9569]
-];
+// Reference white and adaptation method used for LAB/LCH
+export interface LABReference {
+  white: XYZColor;
+  method: AdaptationMethod;
+}
 
-// Rec2020 working space matrix
-const REC2020_MATRIX = [
-  [1.7167, -0.3557, -0.2534],
-  [-0.6667, 1.6165, 0.0158],
-  [0.0176, -0.0428, 0.9421]
-];
+// CSS defines lab()/lch() against D50 (0.3457, 0.3585), adapted with Bradford
+export const CSS_LAB_REFERENCE: LABReference = {
+  white: { x: 0.3457 / 0.3585, y: 1, z: (1 - 0.3457 - 0.3585) / 0.3585 },
+  method: 'Bradford'
+};
 
 // Convert XYZ to xyY chromaticity coordinates
 export function XYZToxyY(xyz: XYZColor): xyColor {
@@ -84,78 +157,67 @@ export function xyYToXYZ(xyY: xyColor): XYZColor {
   return { x, y: Y, z };
 }
 
-// Convert XYZ to RGB for a given color space
+// CIE 1960 UCS chromaticity
+export interface uvColor {
+  u: number;
+  v: number;
+}
+
+// Convert xy chromaticity to CIE 1960 uv
+export function xyToUV(x: number, y: number): uvColor {
+  const d = -2 * x + 12 * y + 3;
+  return { u: (4 * x) / d, v: (6 * y) / d };
+}
+
+// Convert CIE 1960 uv to xy chromaticity
+export function uvToXY(u: number, v: number): { x: number; y: number } {
+  const d = 2 * u - 8 * v + 4;
+  return { x: (3 * u) / d, y: (2 * v) / d };
+}
+
+// Convert xy chromaticity to CIE 1976 u'v'
+export function xyToUVPrime(x: number, y: number): uvColor {
+  const d = -2 * x + 12 * y + 3;
+  return { u: (4 * x) / d, v: (9 * y) / d };
+}
+
+// Convert CIE 1976 u'v' to xy chromaticity
+export function uvPrimeToXY(u: number, v: number): { x: number; y: number } {
+  const d = 6 * u - 16 * v + 12;
+  return { x: (9 * u) / d, y: (4 * v) / d };
+}
+
+// Convert XYZ to linear RGB for a given color space
 export function XYZToRGB(xyz: XYZColor, colorSpace: ColorSpace = 'sRGB'): RGBColor {
-  let matrix: number[][];
-  
-  switch (colorSpace) {
-    case 'P3':
-      matrix = P3_MATRIX;
-      break;
-    case 'Rec2020':
-      matrix = REC2020_MATRIX;
-      break;
-    default:
-      matrix = sRGB_MATRIX;
-  }
-  
-  const r = matrix[0][0] * xyz.x + matrix[0][1] * xyz.y + matrix[0][2] * xyz.z;
-  const g = matrix[1][0] * xyz.x + matrix[1][1] * xyz.y + matrix[1][2] * xyz.z;
-  const b = matrix[2][0] * xyz.x + matrix[2][1] * xyz.y + matrix[2][2] * xyz.z;
-  
+  const { x: r, y: g, z: b } = multiplyMatrixVector(getRGBColorSpace(colorSpace).fromXYZ, xyz);
   return { r, g, b };
 }
 
-// Convert RGB to XYZ for a given color space
+// Convert linear RGB to XYZ for a given color space
 export function RGBToXYZ(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB'): XYZColor {
-  let matrix: number[][];
-  
-  switch (colorSpace) {
-    case 'P3':
-      matrix = [
-        [0.4865, 0.2657, 0.1982],
-        [0.2290, 0.6917, 0.0793],
-        [0.0000, 0.0451, 1.0439]
-      ];
-      break;
-    case 'Rec2020':
-      matrix = [
-        [0.6370, 0.1446, 0.1689],
-        [0.2627, 0.6780, 0.0593],
-        [0.0000, 0.0281, 1.0609]
-      ];
-      break;
-    default:
-      matrix = [
-        [0.4124, 0.3576, 0.1805],
-        [0.2126, 0.7152, 0.0722],
-        [0.0193, 0.1192, 0.9505]
-      ];
-  }
-  
-  const x = matrix[0][0] * rgb.r + matrix[0][1] * rgb.g + matrix[0][2] * rgb.b;
-  const y = matrix[1][0] * rgb.r + matrix[1][1] * rgb.g + matrix[1][2] * rgb.b;
-  const z = matrix[2][0] * rgb.r + matrix[2][1] * rgb.g + matrix[2][2] * rgb.b;
-  
-  return { x, y, z };
+  return multiplyMatrixVector(getRGBColorSpace(colorSpace).toXYZ, { x: rgb.r, y: rgb.g, z: rgb.b });
 }
 
-// Gamma correction
+// sRGB gamma correction (linear -> encoded)
 export function gammaCorrect(value: number): number {
-  if (value <= 0.0031308) {
-    return 12.92 * value;
-  } else {
-    return 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
-  }
+  return TRANSFER_FUNCTIONS.sRGB.encode(value);
 }
 
-// Inverse gamma correction
+// sRGB inverse gamma correction (encoded -> linear)
 export function gammaUncorrect(value: number): number {
-  if (value <= 0.04045) {
-    return value / 12.92;
-  } else {
-    return Math.pow((value + 0.055) / 1.055, 2.4);
-  }
+  return TRANSFER_FUNCTIONS.sRGB.decode(value);
+}
+
+// Encoded RGB (0-1) to linear RGB using the space's transfer function
+export function linearizeRGB(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB'): RGBColor {
+  const { decode } = getRGBColorSpace(colorSpace).transferFunction;
+  return { r: decode(rgb.r), g: decode(rgb.g), b: decode(rgb.b) };
+}
+
+// Linear RGB to encoded RGB (0-1) using the space's transfer function
+export function delinearizeRGB(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB'): RGBColor {
+  const { encode } = getRGBColorSpace(colorSpace).transferFunction;
+  return { r: encode(rgb.r), g: encode(rgb.g), b: encode(rgb.b) };
 }
 
 // Convert RGB to HSL
@@ -172,7 +234,8 @@ export function RGBToHSL(rgb: RGBColor): HSLColor {
   let s = 0;
   const l = (max + min) / 2;
   
-  if (diff !== 0) {
+  // Rounding noise from the transfer function would otherwise give neutrals a hue and saturation
+  if (diff > 1e-9) {
     s = l > 0.5 ? diff / (2 - max - min) : diff / (max + min);
     
     switch (max) {
@@ -192,15 +255,89 @@ export function RGBToHSL(rgb: RGBColor): HSLColor {
   return { h: h * 360, s: s * 100, l: l * 100 };
 }
 
-// Convert XYZ to LAB
-export function XYZToLAB(xyz: XYZColor): LABColor {
-  const xn = 0.95047; // D65 illuminant
-  const yn = 1.00000;
-  const zn = 1.08883;
-  
-  const fx = labF(xyz.x / xn);
-  const fy = labF(xyz.y / yn);
-  const fz = labF(xyz.z / zn);
+// Convert HSL to RGB
+export function HSLToRGB(hsl: HSLColor): RGBColor {
+  const h = (((hsl.h % 360) + 360) % 360) / 360;
+  const s = hsl.s / 100;
+  const l = hsl.l / 100;
+
+  if (s === 0) {
+    return { r: l * 255, g: l * 255, b: l * 255 };
+  }
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  return {
+    r: hueToRGB(p, q, h + 1 / 3) * 255,
+    g: hueToRGB(p, q, h) * 255,
+    b: hueToRGB(p, q, h - 1 / 3) * 255
+  };
+}
+
+function hueToRGB(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+}
+
+// Convert RGB to HSV (HSB)
+export function RGBToHSV(rgb: RGBColor): HSVColor {
+  const max = Math.max(rgb.r, rgb.g, rgb.b) / 255;
+  const min = Math.min(rgb.r, rgb.g, rgb.b) / 255;
+  const { h } = RGBToHSL(rgb);
+
+  return { h, s: max > 0 ? ((max - min) / max) * 100 : 0, v: max * 100 };
+}
+
+// Convert HSV (HSB) to RGB
+export function HSVToRGB(hsv: HSVColor): RGBColor {
+  const s = hsv.s / 100;
+  const v = hsv.v / 100;
+  const l = v * (1 - s / 2);
+  const sl = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+
+  return HSLToRGB({ h: hsv.h, s: sl * 100, l: l * 100 });
+}
+
+// Convert RGB to HWB
+export function RGBToHWB(rgb: RGBColor): HWBColor {
+  const { h } = RGBToHSL(rgb);
+
+  return {
+    h,
+    w: (Math.min(rgb.r, rgb.g, rgb.b) / 255) * 100,
+    b: (1 - Math.max(rgb.r, rgb.g, rgb.b) / 255) * 100
+  };
+}
+
+// Convert HWB to RGB; whiteness + blackness >= 100% gives a gray
+export function HWBToRGB(hwb: HWBColor): RGBColor {
+  const w = hwb.w / 100;
+  const b = hwb.b / 100;
+
+  if (w + b >= 1) {
+    const gray = (w / (w + b)) * 255;
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const pure = HSLToRGB({ h: hwb.h, s: 100, l: 50 });
+  const scale = 1 - w - b;
+  return {
+    r: pure.r * scale + w * 255,
+    g: pure.g * scale + w * 255,
+    b: pure.b * scale + w * 255
+  };
+}
+
+// Convert XYZ to LAB relative to a reference white (no adaptation)
+export function XYZToLAB(xyz: XYZColor, whitePoint: XYZColor = D65_WHITE_XYZ): LABColor {
+  const fx = labF(xyz.x / whitePoint.x);
+  const fy = labF(xyz.y / whitePoint.y);
+  const fz = labF(xyz.z / whitePoint.z);
   
   const l = 116 * fy - 16;
   const a = 500 * (fx - fy);
@@ -209,17 +346,634 @@ export function XYZToLAB(xyz: XYZColor): LABColor {
   return { l, a, b };
 }
 
+// Convert LAB to XYZ relative to a reference white (no adaptation)
+export function LABToXYZ(lab: LABColor, whitePoint: XYZColor = D65_WHITE_XYZ): XYZColor {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+
+  return {
+    x: labFInverse(fx) * whitePoint.x,
+    y: labFInverse(fy) * whitePoint.y,
+    z: labFInverse(fz) * whitePoint.z
+  };
+}
+
+// Convert D65-relative XYZ to LAB under a chosen reference white
+export function XYZToReferenceLAB(xyz: XYZColor, reference?: LABReference): LABColor {
+  if (!reference) return XYZToLAB(xyz);
+
+  return XYZToLAB(adaptXYZ(xyz, D65_WHITE_XYZ, reference.white, reference.method), reference.white);
+}
+
+// Convert LAB under a chosen reference white back to D65-relative XYZ
+export function referenceLABToXYZ(lab: LABColor, reference?: LABReference): XYZColor {
+  if (!reference) return LABToXYZ(lab);
+
+  return adaptXYZ(LABToXYZ(lab, reference.white), reference.white, D65_WHITE_XYZ, reference.method);
+}
+
+// CIE constants: epsilon = 216/24389, kappa = 24389/27
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
 function labF(t: number): number {
-  return t > 0.008856 ? Math.pow(t, 1/3) : 7.787 * t + 16/116;
+  return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+}
+
+function labFInverse(f: number): number {
+  const t = f * f * f;
+  return t > LAB_EPSILON ? t : (116 * f - 16) / LAB_KAPPA;
 }
 
-// Convert LAB to OKLCH (approximation)
-export function LABToOKLCH(lab: LABColor): OKLCHColor {
-  const l = lab.l / 100;
-  const c = Math.sqrt(lab.a * lab.a + lab.b * lab.b) / 100;
+// Convert LAB to LCH(ab)
+export function LABToLCH(lab: LABColor): LCHColor {
+  const c = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
   const h = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
-  
-  return { l, c, h: h < 0 ? h + 360 : h };
+
+  return { l: lab.l, c, h: h < 0 ? h + 360 : h };
+}
+
+// Convert LCH(ab) to LAB
+export function LCHToLAB(lch: LCHColor): LABColor {
+  const hr = lch.h * Math.PI / 180;
+
+  return {
+    l: lch.l,
+    a: lch.c * Math.cos(hr),
+    b: lch.c * Math.sin(hr)
+  };
+}
+
+// CIE 1976 u'v' of an XYZ value; black falls back to the white point
+function XYZToUVPrime(xyz: XYZColor, whitePoint: XYZColor): { u: number; v: number } {
+  const source = xyz.x + 15 * xyz.y + 3 * xyz.z > 0 ? xyz : whitePoint;
+  const d = source.x + 15 * source.y + 3 * source.z;
+  return { u: (4 * source.x) / d, v: (9 * source.y) / d };
+}
+
+// Convert XYZ to CIELUV relative to a reference white
+export function XYZToLUV(xyz: XYZColor, whitePoint: XYZColor = D65_WHITE_XYZ): LUVColor {
+  const yr = xyz.y / whitePoint.y;
+  const l = yr > LAB_EPSILON ? 116 * Math.cbrt(yr) - 16 : LAB_KAPPA * yr;
+  const { u, v } = XYZToUVPrime(xyz, whitePoint);
+  const white = XYZToUVPrime(whitePoint, whitePoint);
+
+  return { l, u: 13 * l * (u - white.u), v: 13 * l * (v - white.v) };
+}
+
+// Convert CIELUV to XYZ relative to a reference white
+export function LUVToXYZ(luv: LUVColor, whitePoint: XYZColor = D65_WHITE_XYZ): XYZColor {
+  if (luv.l <= 0) return { x: 0, y: 0, z: 0 };
+
+  const white = XYZToUVPrime(whitePoint, whitePoint);
+  const u = luv.u / (13 * luv.l) + white.u;
+  const v = luv.v / (13 * luv.l) + white.v;
+  const y = whitePoint.y * (luv.l > LAB_KAPPA * LAB_EPSILON ? Math.pow((luv.l + 16) / 116, 3) : luv.l / LAB_KAPPA);
+
+  return { x: (y * 9 * u) / (4 * v), y, z: (y * (12 - 3 * u - 20 * v)) / (4 * v) };
+}
+
+// Convert CIELUV to LCH(uv)
+export function LUVToLCHuv(luv: LUVColor): LCHuvColor {
+  const c = Math.sqrt(luv.u * luv.u + luv.v * luv.v);
+  // Grays have no meaningful hue; report 0 rather than rounding noise
+  const h = c < 1e-8 ? 0 : Math.atan2(luv.v, luv.u) * 180 / Math.PI;
+
+  return { l: luv.l, c, h: h < 0 ? h + 360 : h };
+}
+
+// Convert LCH(uv) to CIELUV
+export function LCHuvToLUV(lch: LCHuvColor): LUVColor {
+  const hr = lch.h * Math.PI / 180;
+
+  return {
+    l: lch.l,
+    u: lch.c * Math.cos(hr),
+    v: lch.c * Math.sin(hr)
+  };
+}
+
+// OKLab matrices (Björn Ottosson), XYZ D65 -> LMS and LMS' -> OKLab
+const OKLAB_XYZ_TO_LMS = [
+  [0.8189330101, 0.3618667424, -0.1288597137],
+  [0.0329845436, 0.9293118715, 0.0361456387],
+  [0.0482003018, 0.2643662691, 0.6338517070]
+];
+
+const OKLAB_LMS_TO_LAB = [
+  [0.2104542553, 0.7936177850, -0.0040720468],
+  [1.9779984951, -2.4285922050, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.8086757660]
+];
+
+// Inverses of the matrices above
+const OKLAB_LMS_TO_XYZ = [
+  [1.2270138511, -0.5577999807, 0.2812561490],
+  [-0.0405801784, 1.1122568696, -0.0716766787],
+  [-0.0763812845, -0.4214819784, 1.5861632204]
+];
+
+const OKLAB_LAB_TO_LMS = [
+  [0.9999999985, 0.3963377922, 0.2158037581],
+  [1.0000000089, -0.1055613423, -0.0638541748],
+  [1.0000000547, -0.0894841821, -1.2914855379]
+];
+
+// Convert XYZ (D65, Y in 0-1) to OKLab
+export function XYZToOKLab(xyz: XYZColor): OKLabColor {
+  const m = OKLAB_XYZ_TO_LMS;
+  const l = Math.cbrt(m[0][0] * xyz.x + m[0][1] * xyz.y + m[0][2] * xyz.z);
+  const mm = Math.cbrt(m[1][0] * xyz.x + m[1][1] * xyz.y + m[1][2] * xyz.z);
+  const s = Math.cbrt(m[2][0] * xyz.x + m[2][1] * xyz.y + m[2][2] * xyz.z);
+
+  const n = OKLAB_LMS_TO_LAB;
+  return {
+    l: n[0][0] * l + n[0][1] * mm + n[0][2] * s,
+    a: n[1][0] * l + n[1][1] * mm + n[1][2] * s,
+    b: n[2][0] * l + n[2][1] * mm + n[2][2] * s
+  };
+}
+
+// Convert OKLab to XYZ (D65, Y in 0-1)
+export function OKLabToXYZ(oklab: OKLabColor): XYZColor {
+  const n = OKLAB_LAB_TO_LMS;
+  const l = Math.pow(n[0][0] * oklab.l + n[0][1] * oklab.a + n[0][2] * oklab.b, 3);
+  const mm = Math.pow(n[1][0] * oklab.l + n[1][1] * oklab.a + n[1][2] * oklab.b, 3);
+  const s = Math.pow(n[2][0] * oklab.l + n[2][1] * oklab.a + n[2][2] * oklab.b, 3);
+
+  const m = OKLAB_LMS_TO_XYZ;
+  return {
+    x: m[0][0] * l + m[0][1] * mm + m[0][2] * s,
+    y: m[1][0] * l + m[1][1] * mm + m[1][2] * s,
+    z: m[2][0] * l + m[2][1] * mm + m[2][2] * s
+  };
+}
+
+// Convert OKLab to OKLCH (polar form)
+export function OKLabToOKLCH(oklab: OKLabColor): OKLCHColor {
+  const c = Math.sqrt(oklab.a * oklab.a + oklab.b * oklab.b);
+  const h = Math.atan2(oklab.b, oklab.a) * 180 / Math.PI;
+
+  return { l: oklab.l, c, h: h < 0 ? h + 360 : h };
+}
+
+// Convert OKLCH to OKLab
+export function OKLCHToOKLab(oklch: OKLCHColor): OKLabColor {
+  const hr = oklch.h * Math.PI / 180;
+
+  return {
+    l: oklch.l,
+    a: oklch.c * Math.cos(hr),
+    b: oklch.c * Math.sin(hr)
+  };
+}
+
+// Convert encoded RGB (0-255) to linear-light XYZ (Y in 0-1)
+export function encodedRGBToXYZ(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB'): XYZColor {
+  const linear = linearizeRGB({ r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 }, colorSpace);
+  return RGBToXYZ(linear, colorSpace);
+}
+
+// Convert linear-light XYZ (Y in 0-1) to encoded RGB (0-255, unclamped)
+export function XYZToEncodedRGB(xyz: XYZColor, colorSpace: ColorSpace = 'sRGB'): RGBColor {
+  const rgb = delinearizeRGB(XYZToRGB(xyz, colorSpace), colorSpace);
+
+  return {
+    r: rgb.r * 255,
+    g: rgb.g * 255,
+    b: rgb.b * 255
+  };
+}
+
+// Convert xyY to encoded RGB (0-255, unclamped), including the transfer function
+export function xyYToRGB(xyY: xyColor, colorSpace: ColorSpace = 'sRGB'): RGBColor {
+  return XYZToEncodedRGB(xyYToXYZ(xyY), colorSpace);
+}
+
+// Convert encoded RGB (0-255) to xyY
+export function RGBToxyY(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB'): xyColor {
+  return XYZToxyY(encodedRGBToXYZ(rgb, colorSpace));
+}
+
+// Okhsv / Okhsl (Björn Ottosson, 2021), defined against the sRGB gamut
+interface OKLabCusp {
+  l: number;
+  c: number;
+}
+
+// Linear sRGB -> LMS rows, Ottosson's direct form; sRGB neutrals land on a = b = 0 without
+// the rounding of a trip through XYZ
+const OK_SRGB_TO_LMS: [number, number, number][] = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005]
+];
+
+// OKLab of a linear sRGB color
+function linearSRGBToOKLab(rgb: RGBColor): OKLabColor {
+  const [l, m, s] = OK_SRGB_TO_LMS.map(([wr, wg, wb]) => Math.cbrt(wr * rgb.r + wg * rgb.g + wb * rgb.b));
+
+  const n = OKLAB_LMS_TO_LAB;
+  return {
+    l: n[0][0] * l + n[0][1] * m + n[0][2] * s,
+    a: n[1][0] * l + n[1][1] * m + n[1][2] * s,
+    b: n[2][0] * l + n[2][1] * m + n[2][2] * s
+  };
+}
+
+// Linear sRGB of an OKLab value, used to locate the sRGB gamut boundary
+function OKLabToLinearSRGB(oklab: OKLabColor): RGBColor {
+  const [dl, dm, ds] = okLMSDirection(oklab.a, oklab.b);
+  const lms = [oklab.l + dl, oklab.l + dm, oklab.l + ds].map((root) => root * root * root);
+  const [r, g, b] = OK_LMS_TO_SRGB.map(([wl, wm, ws]) => wl * lms[0] + wm * lms[1] + ws * lms[2]);
+
+  return { r, g, b };
+}
+
+// Encoded sRGB (0-255) of an OKLab value
+function OKLabToEncodedSRGB(oklab: OKLabColor): RGBColor {
+  const { r, g, b } = delinearizeRGB(OKLabToLinearSRGB(oklab), 'sRGB');
+  return { r: r * 255, g: g * 255, b: b * 255 };
+}
+
+// LMS' derivatives along a hue direction (rows of the OKLab -> LMS' matrix)
+function okLMSDirection(a: number, b: number): [number, number, number] {
+  return [
+    0.3963377774 * a + 0.2158037573 * b,
+    -0.1055613458 * a - 0.0638541728 * b,
+    -0.0894841775 * a - 1.2914855480 * b
+  ];
+}
+
+// LMS -> linear sRGB rows, one per channel
+const OK_LMS_TO_SRGB: [number, number, number][] = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.7076147010]
+];
+
+// Largest saturation (C / L) at L = 1 that stays inside sRGB for a unit hue (a, b)
+function okMaxSaturation(a: number, b: number): number {
+  // Polynomial fit for the clipping channel, refined with one Halley step
+  let k: number[];
+  let channel: number;
+  if (-1.88170328 * a - 0.80936493 * b > 1) {
+    k = [1.19086277, 1.76576728, 0.59662641, 0.75515197, 0.56771245];
+    channel = 0;
+  } else if (1.81444104 * a - 1.19445276 * b > 1) {
+    k = [0.73956515, -0.45954404, 0.08285427, 0.12541070, 0.14503204];
+    channel = 1;
+  } else {
+    k = [1.35733652, -0.00915799, -1.15130210, -0.50559606, 0.00692167];
+    channel = 2;
+  }
+
+  const saturation = k[0] + k[1] * a + k[2] * b + k[3] * a * a + k[4] * a * b;
+  const direction = okLMSDirection(a, b);
+  const weights = OK_LMS_TO_SRGB[channel];
+
+  let f = 0;
+  let f1 = 0;
+  let f2 = 0;
+  direction.forEach((kc, index) => {
+    const root = 1 + saturation * kc;
+    f += weights[index] * root * root * root;
+    f1 += weights[index] * 3 * kc * root * root;
+    f2 += weights[index] * 6 * kc * kc * root;
+  });
+
+  return saturation - (f * f1) / (f1 * f1 - 0.5 * f * f2);
+}
+
+// Lightness and chroma of the most saturated sRGB color of a hue
+function okFindCusp(a: number, b: number): OKLabCusp {
+  const saturation = okMaxSaturation(a, b);
+  const rgb = OKLabToLinearSRGB({ l: 1, a: saturation * a, b: saturation * b });
+  const l = Math.cbrt(1 / Math.max(rgb.r, rgb.g, rgb.b));
+
+  return { l, c: l * saturation };
+}
+
+// Where the line from (l0, 0) towards (l1, c1) leaves the sRGB gamut, as a fraction t
+function okFindGamutIntersection(a: number, b: number, l1: number, c1: number, l0: number, cusp: OKLabCusp): number {
+  // Lower half: the boundary is the straight line from black to the cusp
+  if ((l1 - l0) * cusp.c - (cusp.l - l0) * c1 <= 0) {
+    return (cusp.c * l0) / (c1 * cusp.l + cusp.c * (l0 - l1));
+  }
+
+  // Upper half: start from the white-to-cusp line, then one Halley step per channel
+  const t = (cusp.c * (l0 - 1)) / (c1 * (cusp.l - 1) + cusp.c * (l0 - l1));
+  const direction = okLMSDirection(a, b);
+  const dl = l1 - l0;
+  const l = l0 * (1 - t) + t * l1;
+  const c = t * c1;
+
+  const roots = direction.map((kc) => l + c * kc);
+  const rootsDt = direction.map((kc) => dl + c1 * kc);
+  const lms = roots.map((root) => root * root * root);
+  const lmsDt = roots.map((root, index) => 3 * rootsDt[index] * root * root);
+  const lmsDt2 = roots.map((root, index) => 6 * rootsDt[index] * rootsDt[index] * root);
+
+  const steps = OK_LMS_TO_SRGB.map((weights) => {
+    const dot = (values: number[]) => weights[0] * values[0] + weights[1] * values[1] + weights[2] * values[2];
+    const value = dot(lms) - 1;
+    const value1 = dot(lmsDt);
+    const value2 = dot(lmsDt2);
+    const u = value1 / (value1 * value1 - 0.5 * value * value2);
+    return u >= 0 ? -value * u : Infinity;
+  });
+
+  return t + Math.min(...steps);
+}
+
+// Toe curve mapping OKLab L to a lightness closer to CIELAB L*
+const OK_TOE_K1 = 0.206;
+const OK_TOE_K2 = 0.03;
+const OK_TOE_K3 = (1 + OK_TOE_K1) / (1 + OK_TOE_K2);
+
+function okToe(x: number): number {
+  const y = OK_TOE_K3 * x - OK_TOE_K1;
+  return 0.5 * (y + Math.sqrt(y * y + 4 * OK_TOE_K2 * OK_TOE_K3 * x));
+}
+
+function okToeInverse(x: number): number {
+  return (x * x + OK_TOE_K1 * x) / (OK_TOE_K3 * (x + OK_TOE_K2));
+}
+
+// Cusp expressed as the slopes of the black and white triangle edges
+function okCuspToST(cusp: OKLabCusp): { s: number; t: number } {
+  return { s: cusp.c / cusp.l, t: cusp.c / (1 - cusp.l) };
+}
+
+// Smooth approximation of the cusp slopes, used for Okhsl's mid chroma
+function okMidST(a: number, b: number): { s: number; t: number } {
+  const s = 0.11516993 + 1 / (
+    7.44778970 + 4.15901240 * b
+    + a * (-2.19557347 + 1.75198401 * b
+      + a * (-2.13704948 - 10.02301043 * b
+        + a * (-4.24894561 + 5.38770819 * b + 4.69891013 * a)))
+  );
+  const t = 0.11239642 + 1 / (
+    1.61320320 - 0.68124379 * b
+    + a * (0.40370612 + 0.90148123 * b
+      + a * (-0.27087943 + 0.61223990 * b
+        + a * (0.00299215 - 0.45399568 * b - 0.14661872 * a)))
+  );
+  return { s, t };
+}
+
+// Reference chromas Okhsl interpolates between at a given lightness and hue
+function okChromaStops(l: number, a: number, b: number): { c0: number; cMid: number; cMax: number } {
+  const cusp = okFindCusp(a, b);
+  const cMax = okFindGamutIntersection(a, b, l, 1, l, cusp);
+  const stMax = okCuspToST(cusp);
+  const k = cMax / Math.min(l * stMax.s, (1 - l) * stMax.t);
+
+  const stMid = okMidST(a, b);
+  const midA = l * stMid.s;
+  const midB = (1 - l) * stMid.t;
+  const cMid = 0.9 * k * Math.sqrt(Math.sqrt(1 / (1 / midA ** 4 + 1 / midB ** 4)));
+
+  const zeroA = l * 0.4;
+  const zeroB = (1 - l) * 0.8;
+  const c0 = Math.sqrt(1 / (1 / zeroA ** 2 + 1 / zeroB ** 2));
+
+  return { c0, cMid, cMax };
+}
+
+// OKLab of an encoded sRGB color, with the unit hue vector (zero chroma for black)
+function okPolar(rgb: RGBColor) {
+  const lab = linearSRGBToOKLab(linearizeRGB({ r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 }, 'sRGB'));
+  const chroma = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  if (chroma === 0) {
+    return { l: lab.l, c: 0, h: 0, a: 1, b: 0 };
+  }
+
+  const h = (Math.atan2(lab.b, lab.a) * 180) / Math.PI;
+  return { l: lab.l, c: chroma, h: h < 0 ? h + 360 : h, a: lab.a / chroma, b: lab.b / chroma };
+}
+
+const OKHSL_MID = 0.8;
+// The published matrices put sRGB white at L = 1 - 6.5e-9, where Okhsl's reference chromas
+// collapse to zero; saturation means nothing that close to white
+const OK_WHITE_L = 1 - 1e-7;
+
+// Convert encoded sRGB (0-255) to Okhsl
+export function RGBToOkhsl(rgb: RGBColor): OkhslColor {
+  const { l, c, h, a, b } = okPolar(rgb);
+  if (l <= 0 || l >= OK_WHITE_L || c === 0) {
+    return { h, s: 0, l: Math.max(0, Math.min(100, okToe(l) * 100)) };
+  }
+
+  const { c0, cMid, cMax } = okChromaStops(l, a, b);
+  let s: number;
+  if (c < cMid) {
+    const k1 = OKHSL_MID * c0;
+    const k2 = 1 - k1 / cMid;
+    s = (c / (k1 + k2 * c)) * OKHSL_MID;
+  } else {
+    const k1 = ((1 - OKHSL_MID) * cMid * cMid) / (OKHSL_MID * OKHSL_MID * c0);
+    const k2 = 1 - k1 / (cMax - cMid);
+    s = OKHSL_MID + (1 - OKHSL_MID) * ((c - cMid) / (k1 + k2 * (c - cMid)));
+  }
+
+  return { h, s: s * 100, l: okToe(l) * 100 };
+}
+
+// Convert Okhsl to encoded sRGB (0-255)
+export function OkhslToRGB(okhsl: OkhslColor): RGBColor {
+  const lightness = okhsl.l / 100;
+  if (lightness >= 1) return { r: 255, g: 255, b: 255 };
+  if (lightness <= 0) return { r: 0, g: 0, b: 0 };
+
+  const hr = (okhsl.h * Math.PI) / 180;
+  const a = Math.cos(hr);
+  const b = Math.sin(hr);
+  const l = okToeInverse(lightness);
+  const s = okhsl.s / 100;
+
+  const { c0, cMid, cMax } = okChromaStops(l, a, b);
+  let c: number;
+  if (s < OKHSL_MID) {
+    const t = s / OKHSL_MID;
+    const k1 = OKHSL_MID * c0;
+    const k2 = 1 - k1 / cMid;
+    c = (t * k1) / (1 - k2 * t);
+  } else {
+    const t = (s - OKHSL_MID) / (1 - OKHSL_MID);
+    const k1 = ((1 - OKHSL_MID) * cMid * cMid) / (OKHSL_MID * OKHSL_MID * c0);
+    const k2 = 1 - k1 / (cMax - cMid);
+    c = cMid + (t * k1) / (1 - k2 * t);
+  }
+
+  return OKLabToEncodedSRGB({ l, a: c * a, b: c * b });
+}
+
+const OKHSV_S0 = 0.5;
+
+// Convert encoded sRGB (0-255) to Okhsv
+export function RGBToOkhsv(rgb: RGBColor): OkhsvColor {
+  const polar = okPolar(rgb);
+  if (polar.l <= 0) return { h: polar.h, s: 0, v: 0 };
+
+  const cusp = okFindCusp(polar.a, polar.b);
+  const { s: sMax, t: tMax } = okCuspToST(cusp);
+  const k = 1 - OKHSV_S0 / sMax;
+
+  // Project onto the line of maximum value, then undo the toe
+  const t = tMax / (polar.c + polar.l * tMax);
+  const lv = t * polar.l;
+  const cv = t * polar.c;
+  const lvt = okToeInverse(lv);
+  const cvt = (cv * lvt) / lv;
+
+  const scaleRGB = OKLabToLinearSRGB({ l: lvt, a: polar.a * cvt, b: polar.b * cvt });
+  const scale = Math.cbrt(1 / Math.max(scaleRGB.r, scaleRGB.g, scaleRGB.b, 0));
+  const l = polar.l / scale;
+
+  return {
+    h: polar.h,
+    s: (((OKHSV_S0 + tMax) * cv) / (tMax * OKHSV_S0 + tMax * k * cv)) * 100,
+    v: (okToe(l) / lv) * 100
+  };
+}
+
+// Convert Okhsv to encoded sRGB (0-255)
+export function OkhsvToRGB(okhsv: OkhsvColor): RGBColor {
+  const s = okhsv.s / 100;
+  const v = okhsv.v / 100;
+  if (v <= 0) return { r: 0, g: 0, b: 0 };
+
+  const hr = (okhsv.h * Math.PI) / 180;
+  const a = Math.cos(hr);
+  const b = Math.sin(hr);
+
+  const cusp = okFindCusp(a, b);
+  const { s: sMax, t: tMax } = okCuspToST(cusp);
+  const k = 1 - OKHSV_S0 / sMax;
+
+  const lv = 1 - (s * OKHSV_S0) / (OKHSV_S0 + tMax - tMax * k * s);
+  const cv = (s * tMax * OKHSV_S0) / (OKHSV_S0 + tMax - tMax * k * s);
+  let l = v * lv;
+  let c = v * cv;
+
+  // Apply the toe and compensate for the gamut boundary not being straight
+  const lvt = okToeInverse(lv);
+  const cvt = (cv * lvt) / lv;
+  const lNew = okToeInverse(l);
+  c = (c * lNew) / l;
+  l = lNew;
+
+  const scaleRGB = OKLabToLinearSRGB({ l: lvt, a: a * cvt, b: b * cvt });
+  const scale = Math.cbrt(1 / Math.max(scaleRGB.r, scaleRGB.g, scaleRGB.b, 0));
+
+  return OKLabToEncodedSRGB({ l: l * scale, a: c * scale * a, b: c * scale * b });
+}
+
+// HSLuv (Alexei Boronine): LCHuv with chroma scaled to the sRGB gamut
+function hsluvMaxChroma(l: number, h: number): number {
+  const m = getRGBColorSpace('sRGB').fromXYZ;
+  const hr = (h * Math.PI) / 180;
+  const sub1 = Math.pow(l + 16, 3) / 1560896;
+  const sub2 = sub1 > LAB_EPSILON ? sub1 : l / LAB_KAPPA;
+
+  // Each channel reaching 0 or 1 bounds chroma along a straight line in uv
+  let max = Infinity;
+  m.forEach(([m1, m2, m3]) => {
+    [0, 1].forEach((t) => {
+      const top1 = (284517 * m1 - 94839 * m3) * sub2;
+      const top2 = (838422 * m3 + 769860 * m2 + 731718 * m1) * l * sub2 - 769860 * t * l;
+      const bottom = (632260 * m3 - 126452 * m2) * sub2 + 126452 * t;
+      const length = top2 / bottom / (Math.sin(hr) - (top1 / bottom) * Math.cos(hr));
+      if (length >= 0) max = Math.min(max, length);
+    });
+  });
+
+  return max;
+}
+
+// Convert encoded sRGB (0-255) to HSLuv
+export function RGBToHSLuv(rgb: RGBColor): HSLuvColor {
+  const { l, c, h } = LUVToLCHuv(XYZToLUV(encodedRGBToXYZ(rgb, 'sRGB')));
+  if (l > 99.9999999 || l < 1e-8) return { h, s: 0, l: Math.max(0, Math.min(100, l)) };
+
+  return { h, s: (c / hsluvMaxChroma(l, h)) * 100, l };
+}
+
+// Convert HSLuv to encoded sRGB (0-255)
+export function HSLuvToRGB(hsluv: HSLuvColor): RGBColor {
+  const { h, s, l } = hsluv;
+  if (l > 99.9999999) return { r: 255, g: 255, b: 255 };
+  if (l < 1e-8) return { r: 0, g: 0, b: 0 };
+
+  const c = (hsluvMaxChroma(l, h) / 100) * s;
+  return XYZToEncodedRGB(LUVToXYZ(LCHuvToLUV({ l, c, h })), 'sRGB');
+}
+
+// Convert a value in any supported color model to XYZ
+export function colorModelToXYZ(
+  model: ColorModel,
+  values: ColorModelValues,
+  colorSpace: ColorSpace = 'sRGB',
+  labReference?: LABReference
+): XYZColor {
+  const [c1, c2, c3] = values;
+
+  switch (model) {
+    case 'HSL':
+      return encodedRGBToXYZ(HSLToRGB({ h: c1, s: c2, l: c3 }), colorSpace);
+    case 'LAB':
+      return referenceLABToXYZ({ l: c1, a: c2, b: c3 }, labReference);
+    case 'LCH':
+      return referenceLABToXYZ(LCHToLAB({ l: c1, c: c2, h: c3 }), labReference);
+    case 'OKLab':
+      return OKLabToXYZ({ l: c1, a: c2, b: c3 });
+    case 'OKLCH':
+      return OKLabToXYZ(OKLCHToOKLab({ l: c1, c: c2, h: c3 }));
+    case 'xyY':
+      return xyYToXYZ({ x: c1, y: c2, Y: c3 });
+  }
+}
+
+// Convert XYZ to a value in any supported color model
+export function XYZToColorModel(
+  xyz: XYZColor,
+  model: ColorModel,
+  colorSpace: ColorSpace = 'sRGB',
+  labReference?: LABReference
+): ColorModelValues {
+  switch (model) {
+    case 'HSL': {
+      const hsl = RGBToHSL(XYZToEncodedRGB(xyz, colorSpace));
+      return [hsl.h, hsl.s, hsl.l];
+    }
+    case 'LAB': {
+      const lab = XYZToReferenceLAB(xyz, labReference);
+      return [lab.l, lab.a, lab.b];
+    }
+    case 'LCH': {
+      const lch = LABToLCH(XYZToReferenceLAB(xyz, labReference));
+      return [lch.l, lch.c, lch.h];
+    }
+    case 'OKLab': {
+      const oklab = XYZToOKLab(xyz);
+      return [oklab.l, oklab.a, oklab.b];
+    }
+    case 'OKLCH': {
+      const oklch = OKLabToOKLCH(XYZToOKLab(xyz));
+      return [oklch.l, oklch.c, oklch.h];
+    }
+    case 'xyY': {
+      const xyY = XYZToxyY(xyz);
+      return [xyY.x, xyY.y, xyY.Y];
+    }
+  }
+}
+
+// Alpha as a modern CSS suffix; empty when opaque
+export function formatAlpha(alpha = 1): string {
+  return alpha < 1 ? ` / ${Number(Math.max(0, alpha).toFixed(3))}` : '';
 }
 
 // Generate color in modern CSS formats
@@ -227,58 +981,56 @@ export function generateCSSColor(rgb: RGBColor, colorSpace: ColorSpace = 'sRGB')
   const r = Math.round(Math.max(0, Math.min(255, rgb.r)));
   const g = Math.round(Math.max(0, Math.min(255, rgb.g)));
   const b = Math.round(Math.max(0, Math.min(255, rgb.b)));
-  
-  switch (colorSpace) {
-    case 'P3':
-      return `color(display-p3 ${(r/255).toFixed(4)} ${(g/255).toFixed(4)} ${(b/255).toFixed(4)})`;
-    case 'Rec2020':
-      return `color(rec2020 ${(r/255).toFixed(4)} ${(g/255).toFixed(4)} ${(b/255).toFixed(4)})`;
-    default:
-      return `rgb(${r}, ${g}, ${b})`;
+  const alpha = formatAlpha(rgb.alpha);
+  const { cssId } = getRGBColorSpace(colorSpace);
+
+  if (cssId === 'srgb') {
+    return alpha ? `rgb(${r} ${g} ${b}${alpha})` : `rgb(${r}, ${g}, ${b})`;
   }
+  if (cssId) {
+    return `color(${cssId} ${(r/255).toFixed(4)} ${(g/255).toFixed(4)} ${(b/255).toFixed(4)}${alpha})`;
+  }
+
+  // Spaces without a CSS name are written as absolute XYZ
+  const xyz = encodedRGBToXYZ({ r, g, b }, colorSpace);
+  return `color(xyz-d65 ${xyz.x.toFixed(4)} ${xyz.y.toFixed(4)} ${xyz.z.toFixed(4)}${alpha})`;
 }
 
-// Check if color is in gamut for given color space
-export function isInGamut(rgb: RGBColor): boolean {
-  return rgb.r >= 0 && rgb.r <= 255 && 
-         rgb.g >= 0 && rgb.g <= 255 && 
-         rgb.b >= 0 && rgb.b <= 255;
+// CSS lab(), always against CSS's D50 white whatever reference white the picker shows
+export function generateCSSLab(xyz: XYZColor, alpha = 1): string {
+  const lab = XYZToReferenceLAB(xyz, CSS_LAB_REFERENCE);
+  return `lab(${lab.l.toFixed(2)}% ${lab.a.toFixed(2)} ${lab.b.toFixed(2)}${formatAlpha(alpha)})`;
 }
 
-// Get color temperature from chromaticity coordinates
-export function getColorTemperature(x: number, y: number): number {
-  const n = (x - 0.3320) / (0.1858 - y);
-  return 449 * Math.pow(n, 3) + 3525 * Math.pow(n, 2) + 6823.3 * n + 5520.33;
+// CSS lch(), against the same D50 white as lab()
+export function generateCSSLCH(xyz: XYZColor, alpha = 1): string {
+  const lch = LABToLCH(XYZToReferenceLAB(xyz, CSS_LAB_REFERENCE));
+  return `lch(${lch.l.toFixed(2)}% ${lch.c.toFixed(2)} ${lch.h.toFixed(2)}${formatAlpha(alpha)})`;
 }
 
-// CIE 1931 chromaticity diagram boundary points (simplified)
-export const CHROMATICITY_BOUNDARY = [
-  { x: 0.7347, y: 0.2653 }, // 700nm
-  { x: 0.2738, y: 0.7174 }, // 546nm
-  { x: 0.1666, y: 0.0089 }, // 435nm
-  { x: 0.7347, y: 0.2653 }  // back to 700nm
-];
+// Hex notation, with a fourth byte for alpha when translucent
+export function RGBToHex(rgb: RGBColor): string {
+  const toHex = (value: number) =>
+    Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, '0');
+  const alpha = rgb.alpha ?? 1;
 
-// sRGB gamut triangle
-export const SRGB_GAMUT = [
-  { x: 0.64, y: 0.33 }, // Red
-  { x: 0.30, y: 0.60 }, // Green
-  { x: 0.15, y: 0.06 }, // Blue
-  { x: 0.64, y: 0.33 }  // back to Red
-];
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}${alpha < 1 ? toHex(alpha * 255) : ''}`;
+}
 
-// P3 gamut triangle
-export const P3_GAMUT = [
-  { x: 0.68, y: 0.32 }, // Red
-  { x: 0.265, y: 0.69 }, // Green
-  { x: 0.15, y: 0.06 }, // Blue
-  { x: 0.68, y: 0.32 }  // back to Red
-];
+// Source-over compositing on encoded values, as browsers blend by default
+export function compositeOver(foreground: RGBColor, background: RGBColor): RGBColor {
+  const alpha = Math.max(0, Math.min(1, foreground.alpha ?? 1));
 
-// Rec2020 gamut triangle
-export const REC2020_GAMUT = [
-  { x: 0.708, y: 0.292 }, // Red
-  { x: 0.170, y: 0.797 }, // Green
-  { x: 0.131, y: 0.046 }, // Blue
-  { x: 0.708, y: 0.292 }  // back to Red
-];
\ No newline at end of file
+  return {
+    r: foreground.r * alpha + background.r * (1 - alpha),
+    g: foreground.g * alpha + background.g * (1 - alpha),
+    b: foreground.b * alpha + background.b * (1 - alpha)
+  };
+}
+
+// Check if color is in gamut for given color space
+export function isInGamut(rgb: RGBColor): boolean {
+  return rgb.r >= 0 && rgb.r <= 255 && 
+         rgb.g >= 0 && rgb.g <= 255 && 
+         rgb.b >= 0 && rgb.b <= 255;
+}
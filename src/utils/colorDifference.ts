@@ -0,0 +1,156 @@
+// Colour-difference metrics
+import { XYZColor, LABColor, OKLabColor } from './colorConversions';
+import { CAM16Environment, XYZToCAM16UCS } from './cam16';
+import { ICtCpColor, JzazbzColor, JzazbzToJzCzhz } from './hdrPerceptual';
+
+export type DeltaEMethod = 'CIE76' | 'CIE94' | 'CIEDE2000' | 'OK' | 'CAM16UCS' | 'ITP' | 'Jz';
+
+export type CIE94Application = 'graphicArts' | 'textiles';
+
+export interface CIEDE2000Weights {
+  kL: number;
+  kC: number;
+  kH: number;
+}
+
+export const DELTA_E_METHODS: { value: DeltaEMethod; label: string }[] = [
+  { value: 'CIE76', label: 'ΔE76' },
+  { value: 'CIE94', label: 'ΔE94' },
+  { value: 'CIEDE2000', label: 'ΔE2000' },
+  { value: 'OK', label: 'ΔEOK' },
+  { value: 'CAM16UCS', label: 'ΔE CAM16-UCS' },
+  { value: 'ITP', label: 'ΔEITP' },
+  { value: 'Jz', label: 'ΔEz' }
+];
+
+// [kL, K1, K2] per CIE94 application
+const CIE94_PARAMETERS: Record<CIE94Application, [number, number, number]> = {
+  graphicArts: [1, 0.045, 0.015],
+  textiles: [2, 0.048, 0.014]
+};
+
+// CIE 1976: Euclidean distance in LAB
+export function deltaE76(lab1: LABColor, lab2: LABColor): number {
+  return Math.sqrt((lab1.l - lab2.l) ** 2 + (lab1.a - lab2.a) ** 2 + (lab1.b - lab2.b) ** 2);
+}
+
+// CIE 1994 (lab1 is the reference; the metric is not symmetric)
+export function deltaE94(
+  lab1: LABColor,
+  lab2: LABColor,
+  application: CIE94Application = 'graphicArts'
+): number {
+  const [kL, K1, K2] = CIE94_PARAMETERS[application];
+
+  const C1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const C2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const dL = lab1.l - lab2.l;
+  const dC = C1 - C2;
+  const da = lab1.a - lab2.a;
+  const db = lab1.b - lab2.b;
+  const dH2 = Math.max(0, da * da + db * db - dC * dC);
+
+  const SL = 1;
+  const SC = 1 + K1 * C1;
+  const SH = 1 + K2 * C1;
+
+  return Math.sqrt((dL / (kL * SL)) ** 2 + (dC / SC) ** 2 + dH2 / (SH * SH));
+}
+
+// CIEDE2000 with configurable parametric weights
+export function deltaE2000(
+  lab1: LABColor,
+  lab2: LABColor,
+  weights: CIEDE2000Weights = { kL: 1, kC: 1, kH: 1 }
+): number {
+  const { kL, kC, kH } = weights;
+  const deg = Math.PI / 180;
+
+  const C1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const C2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const meanC = (C1 + C2) / 2;
+  const meanC7 = meanC ** 7;
+  const G = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + 25 ** 7)));
+
+  const a1 = (1 + G) * lab1.a;
+  const a2 = (1 + G) * lab2.a;
+  const C1p = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const C2p = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const h1p = C1p === 0 ? 0 : (Math.atan2(lab1.b, a1) / deg + 360) % 360;
+  const h2p = C2p === 0 ? 0 : (Math.atan2(lab2.b, a2) / deg + 360) % 360;
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * deg);
+
+  const meanLp = (lab1.l + lab2.l) / 2;
+  const meanCp = (C1p + C2p) / 2;
+
+  let meanhp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) {
+      meanhp /= 2;
+    } else if (h1p + h2p < 360) {
+      meanhp = (meanhp + 360) / 2;
+    } else {
+      meanhp = (meanhp - 360) / 2;
+    }
+  }
+
+  const T = 1 -
+    0.17 * Math.cos((meanhp - 30) * deg) +
+    0.24 * Math.cos(2 * meanhp * deg) +
+    0.32 * Math.cos((3 * meanhp + 6) * deg) -
+    0.20 * Math.cos((4 * meanhp - 63) * deg);
+  const dTheta = 30 * Math.exp(-(((meanhp - 275) / 25) ** 2));
+  const meanCp7 = meanCp ** 7;
+  const RC = 2 * Math.sqrt(meanCp7 / (meanCp7 + 25 ** 7));
+  const SL = 1 + (0.015 * (meanLp - 50) ** 2) / Math.sqrt(20 + (meanLp - 50) ** 2);
+  const SC = 1 + 0.045 * meanCp;
+  const SH = 1 + 0.015 * meanCp * T;
+  const RT = -Math.sin(2 * dTheta * deg) * RC;
+
+  const l = dLp / (kL * SL);
+  const c = dCp / (kC * SC);
+  const h = dHp / (kH * SH);
+
+  return Math.sqrt(l * l + c * c + h * h + RT * c * h);
+}
+
+// Euclidean distance in OKLab
+export function deltaEOK(oklab1: OKLabColor, oklab2: OKLabColor): number {
+  return Math.sqrt((oklab1.l - oklab2.l) ** 2 + (oklab1.a - oklab2.a) ** 2 + (oklab1.b - oklab2.b) ** 2);
+}
+
+// Euclidean distance in CAM16-UCS
+export function deltaECAM16UCS(xyz1: XYZColor, xyz2: XYZColor, environment?: CAM16Environment): number {
+  const ucs1 = XYZToCAM16UCS(xyz1, environment);
+  const ucs2 = XYZToCAM16UCS(xyz2, environment);
+  return Math.sqrt((ucs1.J - ucs2.J) ** 2 + (ucs1.a - ucs2.a) ** 2 + (ucs1.b - ucs2.b) ** 2);
+}
+
+// ITU-R BT.2124 ΔEITP (T = Ct / 2, P = Cp), scaled so 1 is about one JND
+export function deltaEITP(ictcp1: ICtCpColor, ictcp2: ICtCpColor): number {
+  const dI = ictcp1.i - ictcp2.i;
+  const dT = 0.5 * (ictcp1.ct - ictcp2.ct);
+  const dP = ictcp1.cp - ictcp2.cp;
+  return 720 * Math.sqrt(dI * dI + dT * dT + dP * dP);
+}
+
+// Jzazbz ΔEz in JzCzhz form
+export function deltaEz(jzazbz1: JzazbzColor, jzazbz2: JzazbzColor): number {
+  const c1 = JzazbzToJzCzhz(jzazbz1);
+  const c2 = JzazbzToJzCzhz(jzazbz2);
+  const dJ = c1.jz - c2.jz;
+  const dC = c1.cz - c2.cz;
+  const dh = ((c1.hz - c2.hz) * Math.PI) / 180;
+  const dH = 2 * Math.sqrt(c1.cz * c2.cz) * Math.sin(dh / 2);
+  return Math.sqrt(dJ * dJ + dC * dC + dH * dH);
+}
@@ -0,0 +1,224 @@
+// Tabulated CIE standard observer color matching functions
+// Source: CIE 015:2018, 5 nm steps from 360 nm to 830 nm
+
+// [wavelength (nm), x̄, ȳ, z̄]
+export type ColorMatchingFunctionRow = [number, number, number, number];
+
+export const CMF_START_WAVELENGTH = 360;
+export const CMF_END_WAVELENGTH = 830;
+export const CMF_STEP = 5;
+
+// CIE 1931 2° standard observer
+export const CIE_1931_2DEG_CMF: ColorMatchingFunctionRow[] = [
+  [360, 0.0001299, 0.000003917, 0.0006061],
+  [365, 0.0002321, 0.000006965, 0.001086],
+  [370, 0.0004149, 0.00001239, 0.001946],
+  [375, 0.0007416, 0.00002202, 0.003486],
+  [380, 0.001368, 0.000039, 0.00645],
+  [385, 0.002236, 0.000064, 0.01055],
+  [390, 0.004243, 0.00012, 0.02005],
+  [395, 0.00765, 0.000217, 0.03621],
+  [400, 0.01431, 0.000396, 0.06785],
+  [405, 0.02319, 0.00064, 0.1102],
+  [410, 0.04351, 0.00121, 0.2074],
+  [415, 0.07763, 0.00218, 0.3713],
+  [420, 0.13438, 0.004, 0.6456],
+  [425, 0.21477, 0.0073, 1.0390501],
+  [430, 0.2839, 0.0116, 1.3856],
+  [435, 0.3285, 0.01684, 1.62296],
+  [440, 0.34828, 0.023, 1.74706],
+  [445, 0.34806, 0.0298, 1.7826],
+  [450, 0.3362, 0.038, 1.77211],
+  [455, 0.3187, 0.048, 1.7441],
+  [460, 0.2908, 0.06, 1.6692],
+  [465, 0.2511, 0.0739, 1.5281],
+  [470, 0.19536, 0.09098, 1.28764],
+  [475, 0.1421, 0.1126, 1.0419],
+  [480, 0.09564, 0.13902, 0.8129501],
+  [485, 0.05795001, 0.1693, 0.6162],
+  [490, 0.03201, 0.20802, 0.46518],
+  [495, 0.0147, 0.2586, 0.3533],
+  [500, 0.0049, 0.323, 0.272],
+  [505, 0.0024, 0.4073, 0.2123],
+  [510, 0.0093, 0.503, 0.1582],
+  [515, 0.0291, 0.6082, 0.1117],
+  [520, 0.06327, 0.71, 0.07824999],
+  [525, 0.1096, 0.7932, 0.05725001],
+  [530, 0.1655, 0.862, 0.04216],
+  [535, 0.2257499, 0.9148501, 0.02984],
+  [540, 0.2904, 0.954, 0.0203],
+  [545, 0.3597, 0.9803, 0.0134],
+  [550, 0.4334499, 0.9949501, 0.008749999],
+  [555, 0.5120501, 1, 0.005749999],
+  [560, 0.5945, 0.995, 0.0039],
+  [565, 0.6784, 0.9786, 0.002749999],
+  [570, 0.7621, 0.952, 0.0021],
+  [575, 0.8425, 0.9154, 0.0018],
+  [580, 0.9163, 0.87, 0.001650001],
+  [585, 0.9786, 0.8163, 0.0014],
+  [590, 1.0263, 0.757, 0.0011],
+  [595, 1.0567, 0.6949, 0.001],
+  [600, 1.0622, 0.631, 0.0008],
+  [605, 1.0456, 0.5668, 0.0006],
+  [610, 1.0026, 0.503, 0.00034],
+  [615, 0.9384, 0.4412, 0.00024],
+  [620, 0.8544499, 0.381, 0.00019],
+  [625, 0.7514, 0.321, 0.0001],
+  [630, 0.6424, 0.265, 0.00004999999],
+  [635, 0.5419, 0.217, 0.00003],
+  [640, 0.4479, 0.175, 0.00002],
+  [645, 0.3608, 0.1382, 0.00001],
+  [650, 0.2835, 0.107, 0],
+  [655, 0.2187, 0.0816, 0],
+  [660, 0.1649, 0.061, 0],
+  [665, 0.1212, 0.04458, 0],
+  [670, 0.0874, 0.032, 0],
+  [675, 0.0636, 0.0232, 0],
+  [680, 0.04677, 0.017, 0],
+  [685, 0.0329, 0.01192, 0],
+  [690, 0.0227, 0.00821, 0],
+  [695, 0.01584, 0.005723, 0],
+  [700, 0.01135916, 0.004102, 0],
+  [705, 0.008110916, 0.002929, 0],
+  [710, 0.005790346, 0.002091, 0],
+  [715, 0.004109457, 0.001484, 0],
+  [720, 0.002899327, 0.001047, 0],
+  [725, 0.00204919, 0.00074, 0],
+  [730, 0.001439971, 0.00052, 0],
+  [735, 0.0009999493, 0.0003611, 0],
+  [740, 0.0006900786, 0.0002492, 0],
+  [745, 0.0004760213, 0.0001719, 0],
+  [750, 0.0003323011, 0.00012, 0],
+  [755, 0.0002348261, 0.0000848, 0],
+  [760, 0.0001661505, 0.00006, 0],
+  [765, 0.000117413, 0.0000424, 0],
+  [770, 0.00008307527, 0.00003, 0],
+  [775, 0.00005870652, 0.0000212, 0],
+  [780, 0.00004150994, 0.00001499, 0],
+  [785, 0.00002935258, 0.0000106, 0],
+  [790, 0.00002067383, 0.0000074657, 0],
+  [795, 0.00001455977, 0.0000052578, 0],
+  [800, 0.00001025398, 0.0000037029, 0],
+  [805, 0.000007221456, 0.0000026078, 0],
+  [810, 0.000005085868, 0.0000018366, 0],
+  [815, 0.000003581652, 0.0000012934, 0],
+  [820, 0.000002522525, 0.00000091093, 0],
+  [825, 0.000001776509, 0.00000064153, 0],
+  [830, 0.000001251141, 0.00000045181, 0]
+];
+
+// CIE 1964 10° supplementary standard observer
+export const CIE_1964_10DEG_CMF: ColorMatchingFunctionRow[] = [
+  [360, 0.000000122200, 0.000000013398, 0.000000535027],
+  [365, 0.000000919270, 0.000000100650, 0.00000402830],
+  [370, 0.00000595860, 0.000000651100, 0.0000261437],
+  [375, 0.0000330240, 0.00000360160, 0.000145200],
+  [380, 0.000159952, 0.0000173900, 0.000704776],
+  [385, 0.00066244, 0.00007156, 0.0029278],
+  [390, 0.0023616, 0.0002534, 0.0104822],
+  [395, 0.0072423, 0.0007685, 0.032344],
+  [400, 0.0191097, 0.0020044, 0.0860109],
+  [405, 0.043400, 0.004509, 0.197120],
+  [410, 0.084736, 0.008756, 0.389366],
+  [415, 0.140638, 0.014456, 0.656760],
+  [420, 0.204492, 0.021391, 0.972542],
+  [425, 0.264737, 0.029497, 1.28250],
+  [430, 0.314679, 0.038676, 1.55348],
+  [435, 0.357719, 0.049602, 1.79850],
+  [440, 0.383734, 0.062077, 1.96728],
+  [445, 0.386726, 0.074704, 2.02730],
+  [450, 0.370702, 0.089456, 1.99480],
+  [455, 0.342957, 0.106256, 1.90070],
+  [460, 0.302273, 0.128201, 1.74537],
+  [465, 0.254085, 0.152761, 1.55490],
+  [470, 0.195618, 0.185190, 1.31756],
+  [475, 0.132349, 0.219940, 1.03020],
+  [480, 0.080507, 0.253589, 0.772125],
+  [485, 0.041072, 0.297665, 0.570060],
+  [490, 0.016172, 0.339133, 0.415254],
+  [495, 0.005132, 0.395379, 0.302356],
+  [500, 0.003816, 0.460777, 0.218502],
+  [505, 0.015444, 0.531360, 0.159249],
+  [510, 0.037465, 0.606741, 0.112044],
+  [515, 0.071358, 0.685660, 0.082248],
+  [520, 0.117749, 0.761757, 0.060709],
+  [525, 0.172953, 0.823330, 0.043050],
+  [530, 0.236491, 0.875211, 0.030451],
+  [535, 0.304213, 0.923810, 0.020584],
+  [540, 0.376772, 0.961988, 0.013676],
+  [545, 0.451584, 0.982200, 0.007918],
+  [550, 0.529826, 0.991761, 0.003988],
+  [555, 0.616053, 0.999110, 0.001091],
+  [560, 0.705224, 0.997340, 0],
+  [565, 0.793832, 0.982380, 0],
+  [570, 0.878655, 0.955552, 0],
+  [575, 0.951162, 0.915175, 0],
+  [580, 1.014160, 0.868934, 0],
+  [585, 1.074300, 0.825623, 0],
+  [590, 1.118520, 0.777405, 0],
+  [595, 1.134300, 0.720353, 0],
+  [600, 1.123990, 0.658341, 0],
+  [605, 1.089100, 0.593878, 0],
+  [610, 1.030480, 0.527963, 0],
+  [615, 0.950740, 0.461834, 0],
+  [620, 0.856297, 0.398057, 0],
+  [625, 0.754930, 0.339554, 0],
+  [630, 0.647467, 0.283493, 0],
+  [635, 0.535110, 0.228254, 0],
+  [640, 0.431567, 0.179828, 0],
+  [645, 0.343690, 0.140211, 0],
+  [650, 0.268329, 0.107633, 0],
+  [655, 0.204300, 0.081187, 0],
+  [660, 0.152568, 0.060281, 0],
+  [665, 0.112210, 0.044096, 0],
+  [670, 0.0812606, 0.0318004, 0],
+  [675, 0.0579300, 0.0226017, 0],
+  [680, 0.0408508, 0.0159051, 0],
+  [685, 0.0286230, 0.0111303, 0],
+  [690, 0.0199413, 0.0077488, 0],
+  [695, 0.0138420, 0.0053751, 0],
+  [700, 0.00957688, 0.00371774, 0],
+  [705, 0.00660520, 0.00256456, 0],
+  [710, 0.00455263, 0.00176847, 0],
+  [715, 0.00314470, 0.00122239, 0],
+  [720, 0.00217496, 0.000846190, 0],
+  [725, 0.00150570, 0.000586440, 0],
+  [730, 0.00104476, 0.000407410, 0],
+  [735, 0.000727450, 0.000284041, 0],
+  [740, 0.000508258, 0.000198730, 0],
+  [745, 0.000356380, 0.000139550, 0],
+  [750, 0.000250969, 0.0000984428, 0],
+  [755, 0.000177730, 0.0000698225, 0],
+  [760, 0.000126390, 0.0000497171, 0],
+  [765, 0.0000902151, 0.0000355327, 0],
+  [770, 0.0000646091, 0.0000254891, 0],
+  [775, 0.0000464818, 0.0000183685, 0],
+  [780, 0.0000335932, 0.0000132837, 0],
+  [785, 0.0000243962, 0.00000966, 0],
+  [790, 0.0000177998, 0.00000706, 0],
+  [795, 0.0000130403, 0.00000518, 0],
+  [800, 0.00000959100, 0.00000381, 0],
+  [805, 0.00000708, 0.00000281, 0],
+  [810, 0.00000525, 0.00000209, 0],
+  [815, 0.00000391, 0.00000156, 0],
+  [820, 0.00000292, 0.00000117, 0],
+  [825, 0.00000219, 0.000000879, 0],
+  [830, 0.00000165, 0.000000663, 0]
+];
+
+export type StandardObserver = 'CIE1931_2' | 'CIE1964_10';
+
+export interface StandardObserverDefinition {
+  label: string;
+  cmf: ColorMatchingFunctionRow[];
+}
+
+export const STANDARD_OBSERVERS: Record<StandardObserver, StandardObserverDefinition> = {
+  CIE1931_2: { label: 'CIE 1931 2°', cmf: CIE_1931_2DEG_CMF },
+  CIE1964_10: { label: 'CIE 1964 10°', cmf: CIE_1964_10DEG_CMF }
+};
+
+// Color matching functions for a standard observer
+export function getColorMatchingFunctions(observer: StandardObserver = 'CIE1931_2'): ColorMatchingFunctionRow[] {
+  return STANDARD_OBSERVERS[observer].cmf;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCCT, cctToXY, getIsotherm, planckianChromaticity, formatCCT } from './colorTemperature';
+import { xyToUV } from './colorConversions';
+
+// CIE standard illuminants (2° observer): chromaticity, CCT and Duv
+const ILLUMINANTS: [string, number, number, number, number][] = [
+  ['A', 0.44757, 0.40745, 2856, 0],
+  ['D50', 0.34567, 0.35850, 5003, 0.0032],
+  ['D65', 0.31271, 0.32902, 6504, 0.0032]
+];
+
+describe('planckianChromaticity', () => {
+  it('puts 2856 K on CIE illuminant A', () => {
+    const { x, y } = planckianChromaticity(2856);
+    expect(x).toBeCloseTo(0.44757, 4);
+    expect(y).toBeCloseTo(0.40745, 4);
+  });
+});
+
+describe('calculateCCT', () => {
+  it.each(ILLUMINANTS)('gives the CCT and Duv of illuminant %s', (_name, x, y, cct, duv) => {
+    const result = calculateCCT(x, y);
+    expect(result.valid).toBe(true);
+    expect(Math.abs(result.cct - cct)).toBeLessThanOrEqual(1.5);
+    expect(result.duv).toBeCloseTo(duv, 4);
+  });
+
+  // Ohno (2014) quotes CCT errors under 1 K for the combined method with a 1% table
+  it.each([
+    [2000, -0.02], [2000, 0], [3000, 0.01], [4500, -0.005],
+    [6500, 0.02], [6500, 0.001], [10000, -0.01], [20000, 0.03]
+  ])('recovers %i K at Duv %f from its own chromaticity', (temperature, duv) => {
+    const { x, y } = cctToXY(temperature, duv);
+    const result = calculateCCT(x, y);
+    expect(Math.abs(result.cct - temperature)).toBeLessThan(temperature * 1e-4 + 1);
+    expect(result.duv).toBeCloseTo(duv, 5);
+  });
+
+  it('flags points far from the locus or outside the table as invalid', () => {
+    expect(calculateCCT(0.2, 0.6).valid).toBe(false);
+    expect(calculateCCT(0.64, 0.33).valid).toBe(false);
+    expect(formatCCT(calculateCCT(0.2, 0.6))).toBe('n/a');
+  });
+});
+
+describe('getIsotherm', () => {
+  it('spans ±Duv perpendicular to the locus in uv', () => {
+    const [low, high] = getIsotherm(5000, 0.02);
+    const a = xyToUV(low.x, low.y);
+    const b = xyToUV(high.x, high.y);
+    expect(Math.hypot(b.u - a.u, b.v - a.v)).toBeCloseTo(0.04, 6);
+    expect(calculateCCT(high.x, high.y).cct).toBeCloseTo(5000, -1);
+  });
+});
@@ -0,0 +1,226 @@
+// Planckian locus, isotherms and CCT/Duv (Ohno 2013)
+import { xyToUV, uvToXY } from './colorConversions';
+import { StandardObserver, getColorMatchingFunctions } from './colorMatchingFunctions';
+
+export interface CCTResult {
+  cct: number;
+  duv: number;
+  valid: boolean; // false when too far from the locus or outside the table range
+}
+
+export interface PlanckianPoint {
+  temperature: number;
+  x: number;
+  y: number;
+  u: number;
+  v: number;
+}
+
+export type WhiteLocus = 'planckian' | 'daylight';
+
+export const MIN_CCT = 1000;
+export const MAX_CCT = 25000;
+
+// CIE daylight locus is defined from 4000K to 25000K
+export const MIN_DAYLIGHT_CCT = 4000;
+
+// CCT is only meaningful close to the Planckian locus
+export const MAX_VALID_DUV = 0.05;
+
+// Temperatures that get a tick mark and isotherm on the diagram
+export const PLANCKIAN_TICK_TEMPERATURES = [1000, 1500, 2000, 2500, 3000, 4000, 5000, 6500, 10000, 25000];
+
+// Second radiation constant (m·K), ITS-90
+const C2 = 1.4388e-2;
+
+// Ohno's table spacing (1% steps) and parabolic correction factor
+const TABLE_STEP_RATIO = 1.01;
+const PARABOLIC_CORRECTION = 0.99991;
+
+// Relative spectral radiance of a blackbody (Planck's law, constant factor dropped)
+export function planckRadiance(wavelengthNm: number, temperature: number): number {
+  const wavelength = wavelengthNm * 1e-9;
+  return 1 / (Math.pow(wavelength, 5) * (Math.exp(C2 / (wavelength * temperature)) - 1));
+}
+
+// Chromaticity of a blackbody radiator
+export function planckianChromaticity(
+  temperature: number,
+  observer: StandardObserver = 'CIE1931_2'
+): PlanckianPoint {
+  let X = 0;
+  let Y = 0;
+  let Z = 0;
+  getColorMatchingFunctions(observer).forEach(([wavelength, xBar, yBar, zBar]) => {
+    const power = planckRadiance(wavelength, temperature);
+    X += power * xBar;
+    Y += power * yBar;
+    Z += power * zBar;
+  });
+
+  const sum = X + Y + Z;
+  const x = X / sum;
+  const y = Y / sum;
+  const { u, v } = xyToUV(x, y);
+
+  return { temperature, x, y, u, v };
+}
+
+// Lookup tables in 1% temperature steps, built lazily per observer
+const planckianTables: Partial<Record<StandardObserver, PlanckianPoint[]>> = {};
+
+function getPlanckianTable(observer: StandardObserver): PlanckianPoint[] {
+  let table = planckianTables[observer];
+  if (!table) {
+    table = [];
+    // Extend one step past each end so every in-range temperature has neighbours
+    for (let t = MIN_CCT / TABLE_STEP_RATIO; t <= MAX_CCT * TABLE_STEP_RATIO * TABLE_STEP_RATIO; t *= TABLE_STEP_RATIO) {
+      table.push(planckianChromaticity(t, observer));
+    }
+    planckianTables[observer] = table;
+  }
+  return table;
+}
+
+// Points along the Planckian locus for drawing
+export function getPlanckianLocus(
+  observer: StandardObserver = 'CIE1931_2',
+  minTemperature: number = MIN_CCT,
+  maxTemperature: number = MAX_CCT
+): PlanckianPoint[] {
+  return getPlanckianTable(observer).filter(
+    ({ temperature }) => temperature >= minTemperature && temperature <= maxTemperature
+  );
+}
+
+// Correlated color temperature and Duv using Ohno's combined triangular/parabolic method
+export function calculateCCT(x: number, y: number, observer: StandardObserver = 'CIE1931_2'): CCTResult {
+  const { u, v } = xyToUV(x, y);
+  const table = getPlanckianTable(observer);
+  const distances = table.map((point) => Math.hypot(u - point.u, v - point.v));
+
+  let i = 0;
+  for (let k = 1; k < distances.length; k++) {
+    if (distances[k] < distances[i]) i = k;
+  }
+
+  // Nearest entry at either end of the table means the point is outside the range
+  if (i === 0 || i === table.length - 1) {
+    const temperature = table[i].temperature;
+    return { cct: temperature, duv: distances[i] * Math.sign(v - table[i].v), valid: false };
+  }
+
+  const prev = table[i - 1];
+  const curr = table[i];
+  const next = table[i + 1];
+  const dPrev = distances[i - 1];
+  const dCurr = distances[i];
+  const dNext = distances[i + 1];
+
+  // Triangular solution
+  const l = Math.hypot(next.u - prev.u, next.v - prev.v);
+  const xt = (dPrev * dPrev - dNext * dNext + l * l) / (2 * l);
+  let cct = prev.temperature + (next.temperature - prev.temperature) * (xt / l);
+  const vtx = prev.v + (next.v - prev.v) * (xt / l);
+  let duv = Math.sqrt(Math.max(0, dPrev * dPrev - xt * xt)) * Math.sign(v - vtx);
+
+  // Parabolic solution further from the locus
+  if (Math.abs(duv) >= 0.002) {
+    const X = (next.temperature - curr.temperature) *
+      (prev.temperature - next.temperature) *
+      (curr.temperature - prev.temperature);
+    const a = (prev.temperature * (dNext - dCurr) +
+      curr.temperature * (dPrev - dNext) +
+      next.temperature * (dCurr - dPrev)) / X;
+    const b = -(prev.temperature ** 2 * (dNext - dCurr) +
+      curr.temperature ** 2 * (dPrev - dNext) +
+      next.temperature ** 2 * (dCurr - dPrev)) / X;
+    const c = -(dPrev * (next.temperature - curr.temperature) * curr.temperature * next.temperature +
+      dCurr * (prev.temperature - next.temperature) * prev.temperature * next.temperature +
+      dNext * (curr.temperature - prev.temperature) * prev.temperature * curr.temperature) / X;
+
+    const parabolicCCT = -b / (2 * a);
+    cct = parabolicCCT * PARABOLIC_CORRECTION;
+    duv = (a * parabolicCCT * parabolicCCT + b * parabolicCCT + c) * Math.sign(duv);
+  }
+
+  const valid = Math.abs(duv) <= MAX_VALID_DUV && cct >= MIN_CCT && cct <= MAX_CCT;
+
+  return { cct, duv, valid };
+}
+
+// Chromaticity at a given CCT and Duv, offset perpendicular to the locus in uv
+export function cctToXY(
+  temperature: number,
+  duv: number = 0,
+  observer: StandardObserver = 'CIE1931_2'
+): { x: number; y: number } {
+  const point = planckianChromaticity(temperature, observer);
+  if (duv === 0) return { x: point.x, y: point.y };
+
+  const next = planckianChromaticity(temperature * 1.0001, observer);
+  const du = next.u - point.u;
+  const dv = next.v - point.v;
+  const length = Math.hypot(du, dv);
+
+  // Normal pointing toward +v (positive Duv lies above the locus)
+  let nu = -dv / length;
+  let nv = du / length;
+  if (nv < 0) {
+    nu = -nu;
+    nv = -nv;
+  }
+
+  return uvToXY(point.u + nu * duv, point.v + nv * duv);
+}
+
+// Chromaticity of CIE daylight at a temperature (CIE 015 polynomial, 2° observer)
+export function daylightChromaticity(temperature: number): { x: number; y: number } {
+  const t = Math.max(MIN_DAYLIGHT_CCT, Math.min(MAX_CCT, temperature));
+  const x = t <= 7000
+    ? -4.6070e9 / t ** 3 + 2.9678e6 / t ** 2 + 0.09911e3 / t + 0.244063
+    : -2.0064e9 / t ** 3 + 1.9018e6 / t ** 2 + 0.24748e3 / t + 0.237040;
+  const y = -3.000 * x * x + 2.870 * x - 0.275;
+
+  return { x, y };
+}
+
+// Chromaticity from a temperature and a Duv tint on the Planckian or daylight locus
+export function temperatureTintToXY(
+  temperature: number,
+  duv: number,
+  locus: WhiteLocus = 'planckian',
+  observer: StandardObserver = 'CIE1931_2'
+): { x: number; y: number } {
+  if (locus === 'planckian') return cctToXY(temperature, duv, observer);
+
+  // Offset the daylight point along the Planckian normal, like a Duv tint
+  const daylight = daylightChromaticity(temperature);
+  const onLocus = cctToXY(temperature, 0, observer);
+  const tinted = cctToXY(temperature, duv, observer);
+  const base = xyToUV(daylight.x, daylight.y);
+  const from = xyToUV(onLocus.x, onLocus.y);
+  const to = xyToUV(tinted.x, tinted.y);
+
+  return uvToXY(base.u + (to.u - from.u), base.v + (to.v - from.v));
+}
+
+// Isotherm line through the locus at a temperature, spanning ±duvRange
+export function getIsotherm(
+  temperature: number,
+  duvRange: number = MAX_VALID_DUV,
+  observer: StandardObserver = 'CIE1931_2'
+): [{ x: number; y: number }, { x: number; y: number }] {
+  return [
+    cctToXY(temperature, -duvRange, observer),
+    cctToXY(temperature, duvRange, observer)
+  ];
+}
+
+// Format a CCT result for display, e.g. "5600K Duv +0.0032"
+export function formatCCT(result: CCTResult): string {
+  if (!result.valid) return 'n/a';
+
+  const sign = result.duv >= 0 ? '+' : '-';
+  return `${Math.round(result.cct)}K Duv ${sign}${Math.abs(result.duv).toFixed(4)}`;
+}
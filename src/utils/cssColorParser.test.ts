@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSSColor } from './cssColorParser';
+import { XYZToEncodedRGB, encodedRGBToXYZ } from './colorConversions';
+import { XYZToRec2100PQ, XYZToRec2100HLG } from './hdr';
+
+// Parse and return encoded sRGB 0-255 with alpha
+function toSRGB(text: string) {
+  const { xyz, alpha } = parseCSSColor(text);
+  const { r, g, b } = XYZToEncodedRGB(xyz, 'sRGB');
+  return { r, g, b, alpha };
+}
+
+function expectSRGB(text: string, expected: [number, number, number, number?], tolerance = 0.01) {
+  const { r, g, b, alpha } = toSRGB(text);
+  const [er, eg, eb, ea = 1] = expected;
+  expect(Math.abs(r - er)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(g - eg)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(b - eb)).toBeLessThanOrEqual(tolerance);
+  expect(alpha).toBeCloseTo(ea, 6);
+}
+
+describe('parseCSSColor: hex and named colors', () => {
+  it.each([
+    ['#f00', [255, 0, 0]],
+    ['#00ff0080', [0, 255, 0, 128 / 255]],
+    ['#0f08', [0, 255, 0, 136 / 255]],
+    ['rebeccapurple', [102, 51, 153]],
+    ['transparent', [0, 0, 0, 0]]
+  ] as [string, [number, number, number, number?]][])('%s', (text, expected) => {
+    expectSRGB(text, expected);
+  });
+
+  it('reports the format and color space', () => {
+    expect(parseCSSColor('#123456')).toMatchObject({ format: 'hex', colorSpace: 'sRGB' });
+    expect(parseCSSColor('navy')).toMatchObject({ format: 'named' });
+  });
+});
+
+describe('parseCSSColor: legacy and modern rgb()/hsl()', () => {
+  it.each([
+    ['rgb(255, 0, 0)', [255, 0, 0]],
+    ['rgba(0, 255, 0, 0.2)', [0, 255, 0, 0.2]],
+    ['rgb(100%, 50%, 0%)', [255, 127.5, 0]],
+    ['rgb(255 128 0 / 50%)', [255, 128, 0, 0.5]],
+    ['rgb(100% 0% 0% / 0.25)', [255, 0, 0, 0.25]],
+    ['rgb(300 -20 0)', [255, 0, 0]],
+    ['hsl(120, 100%, 25%)', [0, 127.5, 0]],
+    ['hsla(240, 100%, 50%, 0.5)', [0, 0, 255, 0.5]],
+    ['hsl(120deg 100% 25%)', [0, 127.5, 0]],
+    ['hsl(0.5turn 100% 50%)', [0, 255, 255]],
+    ['hsl(3.14159265rad 100% 50%)', [0, 255, 255]],
+    ['hwb(120 0% 49.8039%)', [0, 128, 0]],
+    ['hwb(0 60% 60%)', [127.5, 127.5, 127.5]]
+  ] as [string, [number, number, number, number?]][])('%s', (text, expected) => {
+    expectSRGB(text, expected, 0.02);
+  });
+
+  it('rejects legacy rgb() that mixes numbers and percentages', () => {
+    expect(() => parseCSSColor('rgb(255, 50%, 0)')).toThrow('all numbers or all percentages');
+  });
+
+  it('requires percentages for legacy hsl() saturation and lightness', () => {
+    expect(() => parseCSSColor('hsl(120, 50, 50)')).toThrow('must be percentages');
+    expect(() => parseCSSColor('hsla(120, 50%, 50, 1)')).toThrow('must be percentages');
+    expectSRGB('hsl(120 100 25)', [0, 127.5, 0], 0.02);
+  });
+
+  it('rejects commas in functions without a legacy syntax', () => {
+    expect(() => parseCSSColor('hwb(120, 0%, 50%)')).toThrow('does not accept commas');
+    expect(() => parseCSSColor('lab(50, 0, 0)')).toThrow('does not accept commas');
+  });
+});
+
+describe('parseCSSColor: none', () => {
+  it('treats missing components as zero in modern syntax', () => {
+    expectSRGB('rgb(none 128 0)', [0, 128, 0]);
+    expectSRGB('hsl(none 0% 50%)', [127.5, 127.5, 127.5]);
+    expectSRGB('rgb(255 0 0 / none)', [255, 0, 0, 0]);
+  });
+
+  it('is not allowed in legacy syntax', () => {
+    expect(() => parseCSSColor('rgb(none, 128, 0)')).toThrow('"none" is not allowed');
+  });
+});
+
+// CSS Color 4 web platform test vectors: each is #008000 (green)
+describe('parseCSSColor: lab(), lch(), oklab(), oklch()', () => {
+  it.each([
+    'lab(46.2775% -47.5621 48.5837)',
+    'lch(46.2775% 67.9892 134.3912)',
+    'oklab(51.975% -0.1403 0.10768)',
+    'oklch(51.975% 0.17686 142.495)',
+    'oklch(0.51975 0.17686 142.495deg)'
+  ])('%s is green', (text) => {
+    // The vectors are rounded to a few digits, so allow a fraction of a code value
+    expectSRGB(text, [0, 128, 0], 0.25);
+  });
+
+  it('reads lab() against D50', () => {
+    expectSRGB('lab(100% 0 0)', [255, 255, 255], 0.05);
+    expect(parseCSSColor('lab(100 0 0)').xyz.y).toBeCloseTo(1, 6);
+  });
+
+  it('resolves lab/oklab percentages against their reference ranges', () => {
+    expect(parseCSSColor('lab(50% 100% -100%)').xyz).toEqual(parseCSSColor('lab(50 125 -125)').xyz);
+    expect(parseCSSColor('oklab(50% 100% -100%)').xyz).toEqual(parseCSSColor('oklab(0.5 0.4 -0.4)').xyz);
+  });
+
+  it('clamps lightness to its range', () => {
+    expect(parseCSSColor('lab(150 0 0)').xyz).toEqual(parseCSSColor('lab(100 0 0)').xyz);
+    expect(parseCSSColor('lch(-10 20 30)').xyz).toEqual(parseCSSColor('lch(0 20 30)').xyz);
+    expect(parseCSSColor('oklab(1.5 0 0)').xyz).toEqual(parseCSSColor('oklab(1 0 0)').xyz);
+    expect(parseCSSColor('oklch(120% 0.1 30)').xyz).toEqual(parseCSSColor('oklch(1 0.1 30)').xyz);
+  });
+});
+
+describe('parseCSSColor: color()', () => {
+  it('reads sRGB and linear sRGB', () => {
+    expectSRGB('color(srgb 1 0.5 0)', [255, 127.5, 0]);
+    expectSRGB('color(srgb 100% 50% 0% / 0.5)', [255, 127.5, 0, 0.5]);
+    expectSRGB('color(srgb-linear 0.21404 0.21404 0.21404)', [127.5, 127.5, 127.5], 0.05);
+  });
+
+  it('reads XYZ with D65 and D50 whites', () => {
+    // sRGB red in CSS Color 4's XYZ-D65 and XYZ-D50
+    expectSRGB('color(xyz-d65 0.41239 0.21264 0.01933)', [255, 0, 0], 0.1);
+    expectSRGB('color(xyz 0.41239 0.21264 0.01933)', [255, 0, 0], 0.1);
+    expectSRGB('color(xyz-d50 0.43607 0.22249 0.01392)', [255, 0, 0], 0.1);
+  });
+
+  it('tags registry spaces and leaves others out of gamut', () => {
+    expect(parseCSSColor('color(display-p3 1 0 0)').colorSpace).toBe('P3');
+    const { r, g } = toSRGB('color(display-p3 1 0 0)');
+    expect(r).toBeGreaterThan(255);
+    expect(g).toBeLessThan(0);
+  });
+
+  it('reads the Rec.2100 spaces, with reference white at 1.0 and 203 cd/m² for PQ', () => {
+    expectSRGB('color(rec2100-linear 1 1 1)', [255, 255, 255], 0.05);
+    expectSRGB('color(rec2100-pq 0.5806 0.5806 0.5806)', [255, 255, 255], 0.5);
+    expectSRGB('color(rec2100-hlg 0.75 0.75 0.75 / 0.5)', [255, 255, 255, 0.5], 0.05);
+    expect(parseCSSColor('color(rec2100-pq 0 0 0)').colorSpace).toBe('Rec2020');
+  });
+
+  it.each([
+    ['rec2100-pq', XYZToRec2100PQ],
+    ['rec2100-hlg', XYZToRec2100HLG]
+  ])('parses back the %s export', (space, encode) => {
+    const xyz = encodedRGBToXYZ({ r: 200, g: 80, b: 40 }, 'sRGB');
+    const signal = encode(xyz);
+    const { xyz: parsed } = parseCSSColor(`color(${space} ${signal.r} ${signal.g} ${signal.b})`);
+    expect(parsed.x).toBeCloseTo(xyz.x, 8);
+    expect(parsed.y).toBeCloseTo(xyz.y, 8);
+    expect(parsed.z).toBeCloseTo(xyz.z, 8);
+  });
+
+  it('rejects unknown spaces and functional-only spaces', () => {
+    expect(() => parseCSSColor('color(foo 1 0 0)')).toThrow('Unknown color() space');
+    expect(() => parseCSSColor('color(lab 50 0 0)')).toThrow('Unknown color() space');
+  });
+});
+
+describe('parseCSSColor: color-mix()', () => {
+  it('mixes halfway by default', () => {
+    expectSRGB('color-mix(in srgb, red, blue)', [127.5, 0, 127.5]);
+  });
+
+  it('takes percentages on either side and in either order', () => {
+    expectSRGB('color-mix(in srgb, red 25%, blue)', [63.75, 0, 191.25]);
+    expectSRGB('color-mix(in srgb, red, 25% blue)', [191.25, 0, 63.75]);
+    expectSRGB('color-mix(in srgb, red 50%, blue 150%)', [63.75, 0, 191.25]);
+  });
+
+  it('scales alpha when percentages add up to less than 100%', () => {
+    expectSRGB('color-mix(in srgb, red 30%, blue 30%)', [127.5, 0, 127.5, 0.6]);
+  });
+
+  it('premultiplies by alpha', () => {
+    expectSRGB('color-mix(in srgb, rgb(255 0 0 / 0.5), blue)', [85, 0, 170, 0.75]);
+  });
+
+  it('interpolates hue along the shorter arc', () => {
+    const mixed = toSRGB('color-mix(in hsl, hsl(10deg 50% 50%), hsl(350deg 50% 50%))');
+    const expected = toSRGB('hsl(0deg 50% 50%)');
+    expect(mixed.r).toBeCloseTo(expected.r, 6);
+    expect(mixed.g).toBeCloseTo(expected.g, 6);
+    expect(mixed.b).toBeCloseTo(expected.b, 6);
+  });
+
+  it('mixes in oklch and lab', () => {
+    expectSRGB('color-mix(in oklch, white, white)', [255, 255, 255], 0.05);
+    const gray = toSRGB('lab(50 0 0)');
+    expectSRGB('color-mix(in lab, black, white)', [gray.r, gray.g, gray.b], 0.05);
+  });
+
+  it('rejects a missing interpolation space', () => {
+    expect(() => parseCSSColor('color-mix(red, blue)')).toThrow('expects "in <space>" and two colors');
+    expect(() => parseCSSColor('color-mix(srgb, red, blue)')).toThrow('must start with "in <color space>"');
+    expect(() => parseCSSColor('color-mix(in nowhere, red, blue)')).toThrow('Unknown color-mix()');
+  });
+});
+
+describe('parseCSSColor: errors', () => {
+  it.each([
+    ['', 'Enter a CSS color'],
+    ['#12345', 'Invalid hex color'],
+    ['notacolor', 'Unknown color name'],
+    ['currentcolor', 'cannot be resolved'],
+    ['rgb(1 2)', 'expects 3 channel values'],
+    ['rgb(1 2 3', 'Missing closing'],
+    ['foo(1 2 3)', 'Unknown color function'],
+    ['red blue', 'single CSS color'],
+    ['rgb(from red r g b)', 'Relative color syntax']
+  ])('"%s" throws', (text, message) => {
+    expect(() => parseCSSColor(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,525 @@
+// CSS Color 4/5 parser: turns any CSS color string into D65 XYZ
+import {
+  XYZColor,
+  ColorSpace,
+  CSS_LAB_REFERENCE,
+  D65_WHITE_XYZ,
+  HSLToRGB,
+  HWBToRGB,
+  RGBToHWB,
+  RGBToXYZ,
+  XYZToRGB,
+  RGBToHSL,
+  encodedRGBToXYZ,
+  XYZToEncodedRGB,
+  referenceLABToXYZ,
+  XYZToReferenceLAB,
+  LABToLCH,
+  LCHToLAB,
+  XYZToOKLab,
+  OKLabToXYZ,
+  OKLabToOKLCH,
+  OKLCHToOKLab
+} from './colorConversions';
+import { adaptXYZ } from './chromaticAdaptation';
+import { getRGBColorSpaces } from './rgbColorSpaces';
+import { XYZToRec2100PQ, XYZToRec2100HLG, Rec2100PQToXYZ, Rec2100HLGToXYZ } from './hdr';
+import { CSS_NAMED_COLORS } from './cssNamedColors';
+
+export type CSSColorFormat =
+  | 'hex'
+  | 'named'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'color'
+  | 'color-mix';
+
+export interface ParsedCSSColor {
+  xyz: XYZColor; // D65, Y = 1 at white
+  alpha: number;
+  format: CSSColorFormat;
+  colorSpace?: ColorSpace; // registry space named by the syntax, if any
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'percentage'; value: number }
+  | { type: 'dimension'; value: number; unit: string }
+  | { type: 'ident'; value: string }
+  | { type: 'hash'; value: string }
+  | { type: 'function'; name: string; args: Token[] }
+  | { type: 'comma' }
+  | { type: 'slash' };
+
+type Coordinates = [number, number, number];
+
+// A CSS color space: coordinates <-> D65 XYZ
+interface CSSColorSpace {
+  toXYZ: (coords: Coordinates) => XYZColor;
+  fromXYZ: (xyz: XYZColor) => Coordinates;
+  hueIndex?: number; // polar spaces interpolate this channel as a hue
+  colorSpace?: ColorSpace;
+}
+
+// Spaces usable in color-mix() that have their own function instead of color()
+const FUNCTIONAL_ONLY_SPACES = ['lab', 'lch', 'oklab', 'oklch', 'hsl', 'hwb'];
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i;
+const IDENT_PATTERN = /^-?[a-z_][a-z0-9_-]*/i;
+
+// Split a CSS color string into tokens, nesting function arguments
+function tokenize(text: string): Token[] {
+  let position = 0;
+
+  const parseTokens = (nested: boolean): Token[] => {
+    const tokens: Token[] = [];
+
+    while (position < text.length) {
+      const char = text[position];
+      const rest = text.slice(position);
+
+      if (/\s/.test(char)) {
+        position++;
+      } else if (char === ',') {
+        tokens.push({ type: 'comma' });
+        position++;
+      } else if (char === '/') {
+        tokens.push({ type: 'slash' });
+        position++;
+      } else if (char === ')') {
+        if (!nested) throw new Error(`Unexpected ")" at position ${position + 1}`);
+        position++;
+        return tokens;
+      } else if (char === '#') {
+        const match = /^#([0-9a-f]*)/i.exec(rest)!;
+        tokens.push({ type: 'hash', value: match[1] });
+        position += match[0].length;
+      } else if (NUMBER_PATTERN.test(rest)) {
+        const match = NUMBER_PATTERN.exec(rest)!;
+        const value = Number(match[0]);
+        position += match[0].length;
+
+        const unit = IDENT_PATTERN.exec(text.slice(position));
+        if (text[position] === '%') {
+          tokens.push({ type: 'percentage', value });
+          position++;
+        } else if (unit) {
+          tokens.push({ type: 'dimension', value, unit: unit[0].toLowerCase() });
+          position += unit[0].length;
+        } else {
+          tokens.push({ type: 'number', value });
+        }
+      } else if (IDENT_PATTERN.test(rest)) {
+        const match = IDENT_PATTERN.exec(rest)!;
+        const name = match[0].toLowerCase();
+        position += match[0].length;
+
+        if (text[position] === '(') {
+          position++;
+          tokens.push({ type: 'function', name, args: parseTokens(true) });
+        } else {
+          tokens.push({ type: 'ident', value: name });
+        }
+      } else {
+        throw new Error(`Unexpected character "${char}" at position ${position + 1}`);
+      }
+    }
+
+    if (nested) throw new Error('Missing closing ")"');
+    return tokens;
+  };
+
+  return parseTokens(false);
+}
+
+// Resolve a channel that may be a number, a percentage (of percentScale) or none
+function resolveNumber(token: Token, percentScale: number, channel: string): number {
+  if (token.type === 'number') return token.value;
+  if (token.type === 'percentage') return (token.value / 100) * percentScale;
+  if (token.type === 'ident' && token.value === 'none') return 0;
+  throw new Error(`Invalid value for ${channel}`);
+}
+
+// Resolve a hue given as a number or an angle, in degrees
+function resolveHue(token: Token): number {
+  if (token.type === 'number') return token.value;
+  if (token.type === 'ident' && token.value === 'none') return 0;
+  if (token.type === 'dimension') {
+    switch (token.unit) {
+      case 'deg':
+        return token.value;
+      case 'rad':
+        return (token.value * 180) / Math.PI;
+      case 'grad':
+        return token.value * 0.9;
+      case 'turn':
+        return token.value * 360;
+    }
+  }
+  throw new Error('Invalid hue; expected a number or an angle (deg, rad, grad, turn)');
+}
+
+function resolveAlpha(token: Token | undefined): number {
+  if (!token) return 1;
+  return Math.max(0, Math.min(1, resolveNumber(token, 1, 'alpha')));
+}
+
+// Split function arguments into three channels and an optional alpha.
+// Legacy (comma) syntax is only accepted where the spec allows it.
+function splitArguments(name: string, args: Token[], allowLegacy: boolean): { channels: Token[]; alpha?: Token } {
+  if (args.some((token) => token.type === 'comma')) {
+    if (!allowLegacy) throw new Error(`${name}() does not accept commas`);
+
+    const parts: Token[] = [];
+    args.forEach((token, index) => {
+      const expectComma = index % 2 === 1;
+      if (expectComma !== (token.type === 'comma')) {
+        throw new Error(`${name}() legacy syntax needs exactly one value between commas`);
+      }
+      if (!expectComma) parts.push(token);
+    });
+    if (parts.length !== 3 && parts.length !== 4) {
+      throw new Error(`${name}() expects 3 or 4 comma-separated values`);
+    }
+    if (parts.some((token) => token.type === 'ident' && token.value === 'none')) {
+      throw new Error(`"none" is not allowed in the legacy ${name}() syntax`);
+    }
+    const channelTypes = parts.slice(0, 3).map((token) => token.type);
+    if ((name === 'rgb' || name === 'rgba') && channelTypes.includes('number') && channelTypes.includes('percentage')) {
+      throw new Error(`Legacy ${name}() channels must be all numbers or all percentages`);
+    }
+    if ((name === 'hsl' || name === 'hsla') && channelTypes.slice(1).some((type) => type !== 'percentage')) {
+      throw new Error(`Legacy ${name}() saturation and lightness must be percentages`);
+    }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const slash = args.findIndex((token) => token.type === 'slash');
+  const channels = slash === -1 ? args : args.slice(0, slash);
+  const alphaTokens = slash === -1 ? [] : args.slice(slash + 1);
+
+  if (channels.length !== 3) throw new Error(`${name}() expects 3 channel values`);
+  if (slash !== -1 && alphaTokens.length !== 1) throw new Error(`${name}() expects one alpha value after "/"`);
+  return { channels, alpha: alphaTokens[0] };
+}
+
+// Encoded RGB spaces from the registry, keyed by their CSS name
+function registeredCSSSpaces(): Record<string, CSSColorSpace> {
+  const spaces: Record<string, CSSColorSpace> = {};
+  getRGBColorSpaces().forEach(({ id, cssId }) => {
+    if (!cssId) return;
+    spaces[cssId] = {
+      toXYZ: ([r, g, b]) => encodedRGBToXYZ({ r: r * 255, g: g * 255, b: b * 255 }, id),
+      fromXYZ: (xyz) => {
+        const rgb = XYZToEncodedRGB(xyz, id);
+        return [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+      },
+      colorSpace: id
+    };
+  });
+  return spaces;
+}
+
+// Every space usable in color() and color-mix()
+function getCSSColorSpaces(): Record<string, CSSColorSpace> {
+  const xyzD65: CSSColorSpace = {
+    toXYZ: ([x, y, z]) => ({ x, y, z }),
+    fromXYZ: ({ x, y, z }) => [x, y, z]
+  };
+
+  return {
+    ...registeredCSSSpaces(),
+    'srgb-linear': {
+      toXYZ: ([r, g, b]) => RGBToXYZ({ r, g, b }, 'sRGB'),
+      fromXYZ: (xyz) => {
+        const rgb = XYZToRGB(xyz, 'sRGB');
+        return [rgb.r, rgb.g, rgb.b];
+      },
+      colorSpace: 'sRGB'
+    },
+    // CSS Color HDR: Rec.2020 primaries with reference white at 1.0 (203 cd/m² for PQ),
+    // matching the Rec.2100 exports at the default SDR reference white
+    'rec2100-linear': {
+      toXYZ: ([r, g, b]) => RGBToXYZ({ r, g, b }, 'Rec2020'),
+      fromXYZ: (xyz) => {
+        const rgb = XYZToRGB(xyz, 'Rec2020');
+        return [rgb.r, rgb.g, rgb.b];
+      },
+      colorSpace: 'Rec2020'
+    },
+    'rec2100-pq': {
+      toXYZ: ([r, g, b]) => Rec2100PQToXYZ({ r, g, b }),
+      fromXYZ: (xyz) => {
+        const signal = XYZToRec2100PQ(xyz);
+        return [signal.r, signal.g, signal.b];
+      },
+      colorSpace: 'Rec2020'
+    },
+    'rec2100-hlg': {
+      toXYZ: ([r, g, b]) => Rec2100HLGToXYZ({ r, g, b }),
+      fromXYZ: (xyz) => {
+        const signal = XYZToRec2100HLG(xyz);
+        return [signal.r, signal.g, signal.b];
+      },
+      colorSpace: 'Rec2020'
+    },
+    xyz: xyzD65,
+    'xyz-d65': xyzD65,
+    'xyz-d50': {
+      toXYZ: ([x, y, z]) => adaptXYZ({ x, y, z }, CSS_LAB_REFERENCE.white, D65_WHITE_XYZ, 'Bradford'),
+      fromXYZ: (xyz) => {
+        const d50 = adaptXYZ(xyz, D65_WHITE_XYZ, CSS_LAB_REFERENCE.white, 'Bradford');
+        return [d50.x, d50.y, d50.z];
+      }
+    },
+    lab: {
+      toXYZ: ([l, a, b]) => referenceLABToXYZ({ l, a, b }, CSS_LAB_REFERENCE),
+      fromXYZ: (xyz) => {
+        const lab = XYZToReferenceLAB(xyz, CSS_LAB_REFERENCE);
+        return [lab.l, lab.a, lab.b];
+      }
+    },
+    lch: {
+      toXYZ: ([l, c, h]) => referenceLABToXYZ(LCHToLAB({ l, c, h }), CSS_LAB_REFERENCE),
+      fromXYZ: (xyz) => {
+        const lch = LABToLCH(XYZToReferenceLAB(xyz, CSS_LAB_REFERENCE));
+        return [lch.l, lch.c, lch.h];
+      },
+      hueIndex: 2
+    },
+    oklab: {
+      toXYZ: ([l, a, b]) => OKLabToXYZ({ l, a, b }),
+      fromXYZ: (xyz) => {
+        const oklab = XYZToOKLab(xyz);
+        return [oklab.l, oklab.a, oklab.b];
+      }
+    },
+    oklch: {
+      toXYZ: ([l, c, h]) => OKLabToXYZ(OKLCHToOKLab({ l, c, h })),
+      fromXYZ: (xyz) => {
+        const oklch = OKLabToOKLCH(XYZToOKLab(xyz));
+        return [oklch.l, oklch.c, oklch.h];
+      },
+      hueIndex: 2
+    },
+    hsl: {
+      toXYZ: ([h, s, l]) => encodedRGBToXYZ(HSLToRGB({ h, s, l }), 'sRGB'),
+      fromXYZ: (xyz) => {
+        const hsl = RGBToHSL(XYZToEncodedRGB(xyz, 'sRGB'));
+        return [hsl.h, hsl.s, hsl.l];
+      },
+      hueIndex: 0,
+      colorSpace: 'sRGB'
+    },
+    hwb: {
+      toXYZ: ([h, w, b]) => encodedRGBToXYZ(HWBToRGB({ h, w, b }), 'sRGB'),
+      fromXYZ: (xyz) => {
+        const hwb = RGBToHWB(XYZToEncodedRGB(xyz, 'sRGB'));
+        return [hwb.h, hwb.w, hwb.b];
+      },
+      hueIndex: 0,
+      colorSpace: 'sRGB'
+    }
+  };
+}
+
+// #rgb, #rgba, #rrggbb and #rrggbbaa
+function parseHex(value: string): ParsedCSSColor {
+  if (![3, 4, 6, 8].includes(value.length) || !/^[0-9a-f]+$/i.test(value)) {
+    throw new Error(`Invalid hex color "#${value}"; expected 3, 4, 6 or 8 hex digits`);
+  }
+
+  const digits = value.length <= 4 ? value.split('').map((digit) => digit + digit) : value.match(/../g)!;
+  const [r, g, b, a = 255] = digits.map((pair) => parseInt(pair, 16));
+
+  return {
+    xyz: encodedRGBToXYZ({ r, g, b }, 'sRGB'),
+    alpha: a / 255,
+    format: 'hex',
+    colorSpace: 'sRGB'
+  };
+}
+
+// color(<space> c1 c2 c3 [/ alpha])
+function parseColorFunction(args: Token[]): ParsedCSSColor {
+  const [space, ...rest] = args;
+  if (!space || space.type !== 'ident') throw new Error('color() needs a color space name first');
+
+  const definition = getCSSColorSpaces()[space.value];
+  if (!definition || FUNCTIONAL_ONLY_SPACES.includes(space.value)) {
+    throw new Error(`Unknown color() space "${space.value}"`);
+  }
+
+  const { channels, alpha } = splitArguments('color', rest, false);
+  const coords = channels.map((token, index) => resolveNumber(token, 1, `channel ${index + 1}`)) as Coordinates;
+
+  return {
+    xyz: definition.toXYZ(coords),
+    alpha: resolveAlpha(alpha),
+    format: 'color',
+    colorSpace: definition.colorSpace
+  };
+}
+
+// Interpolate hues along the shorter arc
+function mixHue(h1: number, h2: number, t: number): number {
+  let delta = (((h2 - h1) % 360) + 360) % 360;
+  if (delta > 180) delta -= 360;
+  return (((h1 + delta * t) % 360) + 360) % 360;
+}
+
+// color-mix(in <space>, <color> [p%], <color> [p%])
+function parseColorMix(args: Token[]): ParsedCSSColor {
+  const groups: Token[][] = [[]];
+  args.forEach((token) => {
+    if (token.type === 'comma') groups.push([]);
+    else groups[groups.length - 1].push(token);
+  });
+  if (groups.length !== 3) throw new Error('color-mix() expects "in <space>" and two colors separated by commas');
+
+  const [interpolation, first, second] = groups;
+  if (interpolation[0]?.type !== 'ident' || interpolation[0].value !== 'in' || interpolation[1]?.type !== 'ident') {
+    throw new Error('color-mix() must start with "in <color space>"');
+  }
+  const spaceName = interpolation[1].value;
+  const space = getCSSColorSpaces()[spaceName];
+  if (!space) throw new Error(`Unknown color-mix() interpolation space "${spaceName}"`);
+
+  // Each side is a color plus an optional percentage, in either order
+  const parseSide = (tokens: Token[]) => {
+    const percentage = tokens.find((token) => token.type === 'percentage');
+    const colorTokens = tokens.filter((token) => token !== percentage);
+    if (colorTokens.length !== 1) throw new Error('Each color-mix() side needs exactly one color');
+    return {
+      color: parseToken(colorTokens[0]),
+      percentage: percentage?.type === 'percentage' ? percentage.value / 100 : undefined
+    };
+  };
+  const a = parseSide(first);
+  const b = parseSide(second);
+
+  let p1 = a.percentage ?? (b.percentage !== undefined ? 1 - b.percentage : 0.5);
+  let p2 = b.percentage ?? 1 - p1;
+  const total = p1 + p2;
+  if (total <= 0) throw new Error('color-mix() percentages must not both be zero');
+  const alphaMultiplier = Math.min(1, total);
+  p1 /= total;
+  p2 /= total;
+
+  // Mix premultiplied by alpha, as the spec requires
+  const c1 = space.fromXYZ(a.color.xyz);
+  const c2 = space.fromXYZ(b.color.xyz);
+  const alpha = a.color.alpha * p1 + b.color.alpha * p2;
+  const mixed = c1.map((value, index) => {
+    if (index === space.hueIndex) return mixHue(value, c2[index], p2);
+    const premultiplied = value * a.color.alpha * p1 + c2[index] * b.color.alpha * p2;
+    return alpha > 0 ? premultiplied / alpha : 0;
+  }) as Coordinates;
+
+  return {
+    xyz: space.toXYZ(mixed),
+    alpha: alpha * alphaMultiplier,
+    format: 'color-mix',
+    colorSpace: space.colorSpace
+  };
+}
+
+// Parse one color token (hash, named color or color function)
+function parseToken(token: Token): ParsedCSSColor {
+  if (token.type === 'hash') return parseHex(token.value);
+
+  if (token.type === 'ident') {
+    if (token.value === 'transparent') {
+      return { xyz: { x: 0, y: 0, z: 0 }, alpha: 0, format: 'named', colorSpace: 'sRGB' };
+    }
+    if (token.value === 'currentcolor') {
+      throw new Error('currentcolor depends on the page and cannot be resolved here');
+    }
+    const hex = CSS_NAMED_COLORS[token.value];
+    if (!hex) throw new Error(`Unknown color name "${token.value}"`);
+    return { ...parseHex(hex.slice(1)), format: 'named' };
+  }
+
+  if (token.type !== 'function') throw new Error('Expected a color');
+
+  const { name, args } = token;
+  if (args[0]?.type === 'ident' && args[0].value === 'from') {
+    throw new Error('Relative color syntax ("from") is not supported');
+  }
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const { channels, alpha } = splitArguments(name, args, true);
+      const [r, g, b] = channels.map((channel, index) =>
+        Math.max(0, Math.min(255, resolveNumber(channel, 255, 'RGB'[index])))
+      );
+      return { xyz: encodedRGBToXYZ({ r, g, b }, 'sRGB'), alpha: resolveAlpha(alpha), format: 'rgb', colorSpace: 'sRGB' };
+    }
+    case 'hsl':
+    case 'hsla': {
+      const { channels, alpha } = splitArguments(name, args, true);
+      const h = resolveHue(channels[0]);
+      const s = Math.max(0, resolveNumber(channels[1], 100, 'saturation'));
+      const l = Math.max(0, Math.min(100, resolveNumber(channels[2], 100, 'lightness')));
+      return { xyz: encodedRGBToXYZ(HSLToRGB({ h, s, l }), 'sRGB'), alpha: resolveAlpha(alpha), format: 'hsl', colorSpace: 'sRGB' };
+    }
+    case 'hwb': {
+      const { channels, alpha } = splitArguments(name, args, false);
+      const h = resolveHue(channels[0]);
+      const w = Math.max(0, resolveNumber(channels[1], 100, 'whiteness'));
+      const b = Math.max(0, resolveNumber(channels[2], 100, 'blackness'));
+      return { xyz: encodedRGBToXYZ(HWBToRGB({ h, w, b }), 'sRGB'), alpha: resolveAlpha(alpha), format: 'hwb', colorSpace: 'sRGB' };
+    }
+    case 'lab': {
+      const { channels, alpha } = splitArguments(name, args, false);
+      const l = Math.max(0, Math.min(100, resolveNumber(channels[0], 100, 'lightness')));
+      const a = resolveNumber(channels[1], 125, 'a');
+      const b = resolveNumber(channels[2], 125, 'b');
+      return { xyz: referenceLABToXYZ({ l, a, b }, CSS_LAB_REFERENCE), alpha: resolveAlpha(alpha), format: 'lab' };
+    }
+    case 'lch': {
+      const { channels, alpha } = splitArguments(name, args, false);
+      const l = Math.max(0, Math.min(100, resolveNumber(channels[0], 100, 'lightness')));
+      const c = Math.max(0, resolveNumber(channels[1], 150, 'chroma'));
+      const h = resolveHue(channels[2]);
+      return { xyz: referenceLABToXYZ(LCHToLAB({ l, c, h }), CSS_LAB_REFERENCE), alpha: resolveAlpha(alpha), format: 'lch' };
+    }
+    case 'oklab': {
+      const { channels, alpha } = splitArguments(name, args, false);
+      const l = Math.max(0, Math.min(1, resolveNumber(channels[0], 1, 'lightness')));
+      const a = resolveNumber(channels[1], 0.4, 'a');
+      const b = resolveNumber(channels[2], 0.4, 'b');
+      return { xyz: OKLabToXYZ({ l, a, b }), alpha: resolveAlpha(alpha), format: 'oklab' };
+    }
+    case 'oklch': {
+      const { channels, alpha } = splitArguments(name, args, false);
+      const l = Math.max(0, Math.min(1, resolveNumber(channels[0], 1, 'lightness')));
+      const c = Math.max(0, resolveNumber(channels[1], 0.4, 'chroma'));
+      const h = resolveHue(channels[2]);
+      return { xyz: OKLabToXYZ(OKLCHToOKLab({ l, c, h })), alpha: resolveAlpha(alpha), format: 'oklch' };
+    }
+    case 'color':
+      return parseColorFunction(args);
+    case 'color-mix':
+      return parseColorMix(args);
+    default:
+      throw new Error(`Unknown color function "${name}()"`);
+  }
+}
+
+// Parse a CSS color string; throws an Error describing what is wrong
+export function parseCSSColor(text: string): ParsedCSSColor {
+  const trimmed = text.trim().replace(/;$/, '');
+  if (!trimmed) throw new Error('Enter a CSS color');
+
+  const tokens = tokenize(trimmed);
+  if (tokens.length !== 1) throw new Error('Expected a single CSS color');
+
+  return parseToken(tokens[0]);
+}
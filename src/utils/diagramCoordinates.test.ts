@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DiagramMode,
+  DiagramTransform,
+  DiagramViewport,
+  MAX_DIAGRAM_ZOOM,
+  xyToDiagram,
+  diagramToXY,
+  diagramToCanvas,
+  canvasToDiagram,
+  getDefaultDiagramView,
+  isDefaultDiagramView,
+  getDiagramTransform,
+  zoomDiagramView,
+  panDiagramView,
+  getTickStep,
+  getTickDecimals
+} from './diagramCoordinates';
+
+const MODES: DiagramMode[] = ['xy', 'uv1976', 'uv1960'];
+
+// D65 and illuminant A in xy, CIE 1976 u′v′ and CIE 1960 uv
+const WHITES: [string, number, number, number, number][] = [
+  ['D65', 0.31271, 0.32902, 0.19783, 0.46832],
+  ['A', 0.44757, 0.40745, 0.25597, 0.52429]
+];
+
+describe('xyToDiagram', () => {
+  it.each(WHITES)('places %s in u′v′ and uv', (_name, x, y, u, v) => {
+    const uv1976 = xyToDiagram(x, y, 'uv1976');
+    expect(uv1976.x).toBeCloseTo(u, 4);
+    expect(uv1976.y).toBeCloseTo(v, 4);
+
+    // CIE 1960 v is two thirds of CIE 1976 v′
+    const uv1960 = xyToDiagram(x, y, 'uv1960');
+    expect(uv1960.x).toBeCloseTo(u, 4);
+    expect(uv1960.y).toBeCloseTo((v * 2) / 3, 4);
+  });
+
+  it.each(MODES)('is inverted by diagramToXY (%s)', (mode) => {
+    const back = diagramToXY(xyToDiagram(0.2, 0.6, mode), mode);
+    expect(back.x).toBeCloseTo(0.2, 12);
+    expect(back.y).toBeCloseTo(0.6, 12);
+  });
+});
+
+describe('diagramToCanvas', () => {
+  const transform: DiagramTransform = { scale: 400, originX: 25, originY: 425 };
+
+  it('puts the origin at the bottom left and y up', () => {
+    expect(diagramToCanvas({ x: 0, y: 0 }, transform)).toEqual({ x: 25, y: 425 });
+    expect(diagramToCanvas({ x: 1, y: 1 }, transform)).toEqual({ x: 425, y: 25 });
+  });
+
+  it('is inverted by canvasToDiagram', () => {
+    const point = { x: 0.3127, y: 0.329 };
+    const back = canvasToDiagram(diagramToCanvas(point, transform), transform);
+    expect(back.x).toBeCloseTo(point.x, 12);
+    expect(back.y).toBeCloseTo(point.y, 12);
+  });
+});
+
+describe('diagram views', () => {
+  const viewport: DiagramViewport = { left: 25, top: 25, size: 400 };
+
+  it.each(MODES)('fits the whole extent at the default view (%s)', (mode) => {
+    const view = getDefaultDiagramView(mode);
+    expect(isDefaultDiagramView(view, mode)).toBe(true);
+
+    const transform = getDiagramTransform(view, viewport, mode);
+    const extent = view.centerX * 2;
+    expect(diagramToCanvas({ x: 0, y: 0 }, transform)).toEqual({ x: 25, y: 425 });
+    const corner = diagramToCanvas({ x: extent, y: extent }, transform);
+    expect(corner.x).toBeCloseTo(425, 9);
+    expect(corner.y).toBeCloseTo(25, 9);
+  });
+
+  it.each(MODES)('keeps the point under the anchor fixed while zooming (%s)', (mode) => {
+    const view = getDefaultDiagramView(mode);
+    const anchor = { x: 180, y: 240 };
+    const before = canvasToDiagram(anchor, getDiagramTransform(view, viewport, mode));
+    const zoomed = zoomDiagramView(view, 4, anchor, viewport, mode);
+    const after = canvasToDiagram(anchor, getDiagramTransform(zoomed, viewport, mode));
+
+    expect(zoomed.zoom).toBe(4);
+    expect(isDefaultDiagramView(zoomed, mode)).toBe(false);
+    expect(after.x).toBeCloseTo(before.x, 9);
+    expect(after.y).toBeCloseTo(before.y, 9);
+  });
+
+  it('limits zoom to its range', () => {
+    const view = getDefaultDiagramView('xy');
+    const center = { x: 225, y: 225 };
+    expect(zoomDiagramView(view, 0.5, center, viewport, 'xy').zoom).toBe(1);
+    expect(zoomDiagramView(view, 1e6, center, viewport, 'xy').zoom).toBe(MAX_DIAGRAM_ZOOM);
+  });
+
+  it('pans with the drag and stops the center at the diagram edge', () => {
+    const view = { zoom: 2, centerX: 0.5, centerY: 0.5 };
+    const panned = panDiagramView(view, 80, -40, viewport, 'xy');
+    expect(panned.centerX).toBeCloseTo(0.4, 12);
+    expect(panned.centerY).toBeCloseTo(0.45, 12);
+
+    const far = panDiagramView(view, -1e5, 1e5, viewport, 'xy');
+    expect(far.centerX).toBe(1);
+    expect(far.centerY).toBe(1);
+  });
+});
+
+describe('grid ticks', () => {
+  it.each([
+    [1, 0.1, 1],
+    [0.7, 0.1, 1],
+    [0.4, 0.05, 2],
+    [0.12, 0.02, 2],
+    [0.002, 0.0002, 4]
+  ])('a span of %f gets steps of %f with %i decimals', (span, step, decimals) => {
+    expect(getTickStep(span)).toBeCloseTo(step, 12);
+    expect(getTickDecimals(getTickStep(span))).toBe(decimals);
+  });
+});
@@ -0,0 +1,165 @@
+// Chromaticity diagram coordinate systems and the mapping to canvas pixels
+import { xyToUV, uvToXY, xyToUVPrime, uvPrimeToXY } from './colorConversions';
+
+export type DiagramMode = 'xy' | 'uv1976' | 'uv1960';
+
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface DiagramModeDefinition {
+  label: string;
+  axes: [string, string];
+  extent: number; // both axes run from 0 to this value
+}
+
+export const DIAGRAM_MODES: Record<DiagramMode, DiagramModeDefinition> = {
+  xy: { label: 'xy', axes: ['x', 'y'], extent: 1 },
+  uv1976: { label: 'u′v′', axes: ['u′', 'v′'], extent: 0.7 },
+  uv1960: { label: 'uv', axes: ['u', 'v'], extent: 0.7 }
+};
+
+// Pixel placement of the diagram: px = originX + x * scale, py = originY - y * scale
+export interface DiagramTransform {
+  scale: number;
+  originX: number;
+  originY: number;
+}
+
+// Convert xy chromaticity to the diagram's coordinates
+export function xyToDiagram(x: number, y: number, mode: DiagramMode): DiagramPoint {
+  switch (mode) {
+    case 'xy':
+      return { x, y };
+    case 'uv1976': {
+      const { u, v } = xyToUVPrime(x, y);
+      return { x: u, y: v };
+    }
+    case 'uv1960': {
+      const { u, v } = xyToUV(x, y);
+      return { x: u, y: v };
+    }
+  }
+}
+
+// Convert diagram coordinates back to xy chromaticity
+export function diagramToXY(point: DiagramPoint, mode: DiagramMode): DiagramPoint {
+  switch (mode) {
+    case 'xy':
+      return point;
+    case 'uv1976':
+      return uvPrimeToXY(point.x, point.y);
+    case 'uv1960':
+      return uvToXY(point.x, point.y);
+  }
+}
+
+// Diagram coordinates -> canvas pixels
+export function diagramToCanvas(point: DiagramPoint, transform: DiagramTransform): DiagramPoint {
+  return {
+    x: transform.originX + point.x * transform.scale,
+    y: transform.originY - point.y * transform.scale
+  };
+}
+
+// Canvas pixels -> diagram coordinates
+export function canvasToDiagram(point: DiagramPoint, transform: DiagramTransform): DiagramPoint {
+  return {
+    x: (point.x - transform.originX) / transform.scale,
+    y: (transform.originY - point.y) / transform.scale
+  };
+}
+
+// Zoom and pan of the diagram: zoom 1 fits the whole extent, center is in diagram units
+export interface DiagramView {
+  zoom: number;
+  centerX: number;
+  centerY: number;
+}
+
+// Square plotting area on the canvas, in pixels
+export interface DiagramViewport {
+  left: number;
+  top: number;
+  size: number;
+}
+
+export const MIN_DIAGRAM_ZOOM = 1;
+export const MAX_DIAGRAM_ZOOM = 500;
+
+// View showing the whole diagram
+export function getDefaultDiagramView(mode: DiagramMode): DiagramView {
+  const { extent } = DIAGRAM_MODES[mode];
+  return { zoom: 1, centerX: extent / 2, centerY: extent / 2 };
+}
+
+export function isDefaultDiagramView(view: DiagramView, mode: DiagramMode): boolean {
+  const initial = getDefaultDiagramView(mode);
+  return view.zoom === initial.zoom && view.centerX === initial.centerX && view.centerY === initial.centerY;
+}
+
+// Pixel placement of a view inside the plotting area
+export function getDiagramTransform(view: DiagramView, viewport: DiagramViewport, mode: DiagramMode): DiagramTransform {
+  const scale = (viewport.size / DIAGRAM_MODES[mode].extent) * view.zoom;
+  return {
+    scale,
+    originX: viewport.left + viewport.size / 2 - view.centerX * scale,
+    originY: viewport.top + viewport.size / 2 + view.centerY * scale
+  };
+}
+
+// Keep the view center on the diagram so it cannot be panned out of sight
+function clampDiagramView(view: DiagramView, mode: DiagramMode): DiagramView {
+  const { extent } = DIAGRAM_MODES[mode];
+  return {
+    zoom: Math.min(MAX_DIAGRAM_ZOOM, Math.max(MIN_DIAGRAM_ZOOM, view.zoom)),
+    centerX: Math.min(extent, Math.max(0, view.centerX)),
+    centerY: Math.min(extent, Math.max(0, view.centerY))
+  };
+}
+
+// Zoom by a factor, keeping the diagram point under the anchor pixel in place
+export function zoomDiagramView(
+  view: DiagramView,
+  factor: number,
+  anchor: DiagramPoint,
+  viewport: DiagramViewport,
+  mode: DiagramMode
+): DiagramView {
+  const zoom = Math.min(MAX_DIAGRAM_ZOOM, Math.max(MIN_DIAGRAM_ZOOM, view.zoom * factor));
+  const fixed = canvasToDiagram(anchor, getDiagramTransform(view, viewport, mode));
+  const ratio = view.zoom / zoom;
+
+  return clampDiagramView({
+    zoom,
+    centerX: fixed.x - (fixed.x - view.centerX) * ratio,
+    centerY: fixed.y - (fixed.y - view.centerY) * ratio
+  }, mode);
+}
+
+// Move the diagram by a drag of (dx, dy) canvas pixels
+export function panDiagramView(
+  view: DiagramView,
+  dx: number,
+  dy: number,
+  viewport: DiagramViewport,
+  mode: DiagramMode
+): DiagramView {
+  const { scale } = getDiagramTransform(view, viewport, mode);
+  return clampDiagramView({ ...view, centerX: view.centerX - dx / scale, centerY: view.centerY + dy / scale }, mode);
+}
+
+// Tick spacing of 1, 2 or 5 x 10^n giving roughly the target number of ticks over a span
+export function getTickStep(span: number, targetTicks: number = 8): number {
+  const rough = span / targetTicks;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+// Decimal places needed to label ticks at a step
+export function getTickDecimals(step: number): number {
+  return Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { GamutMappingMethod, isXYZInGamut, mapToGamut } from './gamutMapping';
+import {
+  RGBColor,
+  XYZColor,
+  encodedRGBToXYZ,
+  XYZToEncodedRGB,
+  XYZToOKLab,
+  OKLabToOKLCH,
+  OKLCHToOKLab,
+  OKLabToXYZ,
+  XYZToLAB,
+  LABToLCH
+} from './colorConversions';
+
+const METHODS: GamutMappingMethod[] = ['clip', 'oklch', 'lch', 'white'];
+
+// Display P3 primaries and secondaries, all outside sRGB
+const P3_COLORS: [string, RGBColor][] = [
+  ['red', { r: 255, g: 0, b: 0 }],
+  ['green', { r: 0, g: 255, b: 0 }],
+  ['blue', { r: 0, g: 0, b: 255 }],
+  ['cyan', { r: 0, g: 255, b: 255 }],
+  ['yellow', { r: 255, g: 255, b: 0 }]
+];
+
+function fromOKLCH(l: number, c: number, h: number): XYZColor {
+  return OKLabToXYZ(OKLCHToOKLab({ l, c, h }));
+}
+
+function expectInRange(rgb: RGBColor) {
+  [rgb.r, rgb.g, rgb.b].forEach((value) => {
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThanOrEqual(255);
+  });
+}
+
+// Hue difference in degrees, wrapped to 0-180
+function hueDistance(a: number, b: number): number {
+  return Math.abs(((a - b + 540) % 360) - 180);
+}
+
+describe('isXYZInGamut', () => {
+  it('accepts sRGB colors and rejects P3 primaries in sRGB', () => {
+    expect(isXYZInGamut(encodedRGBToXYZ({ r: 255, g: 0, b: 0 }, 'sRGB'), 'sRGB')).toBe(true);
+    expect(isXYZInGamut(encodedRGBToXYZ({ r: 255, g: 0, b: 0 }, 'P3'), 'sRGB')).toBe(false);
+    expect(isXYZInGamut(encodedRGBToXYZ({ r: 255, g: 0, b: 0 }, 'sRGB'), 'P3')).toBe(true);
+  });
+});
+
+describe.each(METHODS)('mapToGamut (%s)', (method) => {
+  it('leaves in-gamut colors unchanged', () => {
+    const rgb = { r: 200, g: 120, b: 40 };
+    const mapped = mapToGamut(encodedRGBToXYZ(rgb, 'sRGB'), 'sRGB', method);
+    expect(mapped.r).toBeCloseTo(rgb.r, 1);
+    expect(mapped.g).toBeCloseTo(rgb.g, 1);
+    expect(mapped.b).toBeCloseTo(rgb.b, 1);
+  });
+
+  it.each(P3_COLORS)('brings P3 %s into 0-255', (_name, rgb) => {
+    expectInRange(mapToGamut(encodedRGBToXYZ(rgb, 'P3'), 'sRGB', method));
+  });
+});
+
+describe('mapToGamut (clip)', () => {
+  it('clamps each encoded channel', () => {
+    const xyz = encodedRGBToXYZ({ r: 255, g: 0, b: 0 }, 'P3');
+    const encoded = XYZToEncodedRGB(xyz, 'sRGB');
+    const clipped = mapToGamut(xyz, 'sRGB', 'clip');
+    expect(clipped.r).toBe(255);
+    expect(clipped.g).toBeCloseTo(Math.max(0, encoded.g), 10);
+    expect(clipped.b).toBe(0);
+  });
+});
+
+describe('mapToGamut (oklch)', () => {
+  it.each(P3_COLORS)('keeps OKLCH lightness and hue of P3 %s to within a JND', (_name, rgb) => {
+    const xyz = encodedRGBToXYZ(rgb, 'P3');
+    const origin = OKLabToOKLCH(XYZToOKLab(xyz));
+    const mapped = OKLabToOKLCH(XYZToOKLab(encodedRGBToXYZ(mapToGamut(xyz, 'sRGB', 'oklch'), 'sRGB')));
+    expect(Math.abs(mapped.l - origin.l)).toBeLessThan(0.02);
+    expect(hueDistance(mapped.h, origin.h)).toBeLessThan(3);
+    expect(mapped.c).toBeLessThan(origin.c);
+  });
+
+  it('gives up no more chroma than it has to', () => {
+    const xyz = fromOKLCH(0.7, 0.3, 150);
+    const mapped = OKLabToOKLCH(XYZToOKLab(encodedRGBToXYZ(mapToGamut(xyz, 'sRGB', 'oklch'), 'sRGB')));
+    expect(isXYZInGamut(fromOKLCH(0.7, mapped.c + 0.02, 150), 'sRGB')).toBe(false);
+  });
+
+  it('maps lightness at or beyond the ends to white and black', () => {
+    expect(mapToGamut(fromOKLCH(1.2, 0.1, 30), 'sRGB', 'oklch')).toEqual({ r: 255, g: 255, b: 255 });
+    expect(mapToGamut(fromOKLCH(-0.1, 0.1, 30), 'sRGB', 'oklch')).toEqual({ r: 0, g: 0, b: 0 });
+  });
+});
+
+describe('mapToGamut (lch)', () => {
+  it.each(P3_COLORS)('keeps CIE lightness and hue of P3 %s', (_name, rgb) => {
+    const xyz = encodedRGBToXYZ(rgb, 'P3');
+    const origin = LABToLCH(XYZToLAB(xyz));
+    const mapped = LABToLCH(XYZToLAB(encodedRGBToXYZ(mapToGamut(xyz, 'sRGB', 'lch'), 'sRGB')));
+    expect(mapped.l).toBeCloseTo(origin.l, 1);
+    expect(hueDistance(mapped.h, origin.h)).toBeLessThan(0.5);
+  });
+});
+
+describe('mapToGamut (white)', () => {
+  it.each(P3_COLORS)('keeps the luminance of P3 %s', (_name, rgb) => {
+    const xyz = encodedRGBToXYZ(rgb, 'P3');
+    const mapped = encodedRGBToXYZ(mapToGamut(xyz, 'sRGB', 'white'), 'sRGB');
+    expect(mapped.y).toBeCloseTo(xyz.y, 3);
+  });
+});
@@ -0,0 +1,157 @@
+// Gamut mapping of out-of-gamut colors into an RGB space
+import {
+  XYZColor,
+  RGBColor,
+  ColorSpace,
+  XYZToRGB,
+  RGBToXYZ,
+  XYZToEncodedRGB,
+  encodedRGBToXYZ,
+  XYZToOKLab,
+  OKLabToXYZ,
+  OKLabToOKLCH,
+  OKLCHToOKLab,
+  XYZToLAB,
+  LABToXYZ,
+  LABToLCH,
+  LCHToLAB
+} from './colorConversions';
+import { deltaEOK } from './colorDifference';
+
+export type GamutMappingMethod = 'clip' | 'oklch' | 'lch' | 'white';
+
+export const GAMUT_MAPPING_METHODS: { value: GamutMappingMethod; label: string }[] = [
+  { value: 'clip', label: 'Clip' },
+  { value: 'oklch', label: 'OKLCH chroma (CSS)' },
+  { value: 'lch', label: 'LAB chroma' },
+  { value: 'white', label: 'Project to white' }
+];
+
+// CSS Color 4 just-noticeable difference and search precision
+const JND = 0.02;
+const CHROMA_EPSILON = 0.0001;
+
+// Tolerance for rounding noise in the gamut test (encoded 0-255)
+const GAMUT_TOLERANCE = 1e-6;
+
+// Check whether an XYZ color is inside the RGB gamut
+export function isXYZInGamut(xyz: XYZColor, colorSpace: ColorSpace): boolean {
+  const rgb = XYZToEncodedRGB(xyz, colorSpace);
+  return [rgb.r, rgb.g, rgb.b].every(
+    (value) => value >= -GAMUT_TOLERANCE && value <= 255 + GAMUT_TOLERANCE
+  );
+}
+
+// Clip encoded channels to 0-255
+function clipXYZ(xyz: XYZColor, colorSpace: ColorSpace): RGBColor {
+  const rgb = XYZToEncodedRGB(xyz, colorSpace);
+  return {
+    r: Math.max(0, Math.min(255, rgb.r)),
+    g: Math.max(0, Math.min(255, rgb.g)),
+    b: Math.max(0, Math.min(255, rgb.b))
+  };
+}
+
+// CSS Color 4 binary search on OKLCH chroma with a ΔEOK JND
+function mapOKLCH(xyz: XYZColor, colorSpace: ColorSpace): RGBColor {
+  const origin = OKLabToOKLCH(XYZToOKLab(xyz));
+
+  if (origin.l >= 1) return { r: 255, g: 255, b: 255 };
+  if (origin.l <= 0) return { r: 0, g: 0, b: 0 };
+  if (isXYZInGamut(xyz, colorSpace)) return clipXYZ(xyz, colorSpace);
+
+  const toXYZ = (chroma: number) => OKLabToXYZ(OKLCHToOKLab({ ...origin, c: chroma }));
+
+  let clipped = clipXYZ(xyz, colorSpace);
+  if (deltaEOK(XYZToOKLab(encodedRGBToXYZ(clipped, colorSpace)), XYZToOKLab(xyz)) < JND) return clipped;
+
+  let min = 0;
+  let max = origin.c;
+  let minInGamut = true;
+
+  while (max - min > CHROMA_EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = toXYZ(chroma);
+
+    if (minInGamut && isXYZInGamut(current, colorSpace)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = clipXYZ(current, colorSpace);
+    const error = deltaEOK(XYZToOKLab(encodedRGBToXYZ(clipped, colorSpace)), XYZToOKLab(current));
+
+    if (error < JND) {
+      if (JND - error < CHROMA_EPSILON) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+}
+
+// Binary search on CIELCh chroma at constant L and h
+function mapLCH(xyz: XYZColor, colorSpace: ColorSpace): RGBColor {
+  const origin = LABToLCH(XYZToLAB(xyz));
+
+  if (origin.l >= 100) return { r: 255, g: 255, b: 255 };
+  if (origin.l <= 0) return { r: 0, g: 0, b: 0 };
+  if (isXYZInGamut(xyz, colorSpace)) return clipXYZ(xyz, colorSpace);
+
+  const toXYZ = (chroma: number) => LABToXYZ(LCHToLAB({ ...origin, c: chroma }));
+
+  let min = 0;
+  let max = origin.c;
+  while (max - min > CHROMA_EPSILON * 100) {
+    const chroma = (min + max) / 2;
+    if (isXYZInGamut(toXYZ(chroma), colorSpace)) {
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipXYZ(toXYZ(min), colorSpace);
+}
+
+// Desaturate toward the white of equal luminance in linear RGB
+function mapTowardWhite(xyz: XYZColor, colorSpace: ColorSpace): RGBColor {
+  const Y = xyz.y;
+
+  if (Y >= 1) return { r: 255, g: 255, b: 255 };
+  if (Y <= 0) return { r: 0, g: 0, b: 0 };
+  if (isXYZInGamut(xyz, colorSpace)) return clipXYZ(xyz, colorSpace);
+
+  // Largest step t along white + t·(rgb − white) that keeps every channel in 0-1
+  const linear = XYZToRGB(xyz, colorSpace);
+  let t = 1;
+  for (const value of [linear.r, linear.g, linear.b]) {
+    if (value < 0) t = Math.min(t, Y / (Y - value));
+    else if (value > 1) t = Math.min(t, (1 - Y) / (value - Y));
+  }
+
+  const mix = (value: number) => Y + t * (value - Y);
+  const mapped = RGBToXYZ({ r: mix(linear.r), g: mix(linear.g), b: mix(linear.b) }, colorSpace);
+  return clipXYZ(mapped, colorSpace);
+}
+
+// Map an XYZ color (Y in 0-1) into the encoded 0-255 range of an RGB space
+export function mapToGamut(
+  xyz: XYZColor,
+  colorSpace: ColorSpace = 'sRGB',
+  method: GamutMappingMethod = 'oklch'
+): RGBColor {
+  switch (method) {
+    case 'clip':
+      return clipXYZ(xyz, colorSpace);
+    case 'oklch':
+      return mapOKLCH(xyz, colorSpace);
+    case 'lch':
+      return mapLCH(xyz, colorSpace);
+    case 'white':
+      return mapTowardWhite(xyz, colorSpace);
+  }
+}
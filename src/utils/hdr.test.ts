@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Rec2100HLGToXYZ,
+  Rec2100PQToXYZ,
+  XYZToRec2100HLG,
+  XYZToRec2100PQ,
+  hlgDecode,
+  hlgEncode,
+  pqDecode,
+  pqEncode,
+  toCodeValue
+} from './hdr';
+import { D65_WHITE_XYZ } from './colorConversions';
+
+// ITU-R BT.2408 reference levels: luminance (cd/m²) and PQ signal
+const PQ_LEVELS: [string, number, number][] = [
+  ['18% grey', 26, 0.38],
+  ['reference white', 203, 0.58],
+  ['1000 cd/m²', 1000, 0.75]
+];
+
+describe('PQ (ST 2084)', () => {
+  it('spans 0 to 10000 cd/m²', () => {
+    expect(pqEncode(0)).toBeCloseTo(0, 5);
+    expect(pqEncode(10000)).toBeCloseTo(1, 12);
+    expect(pqDecode(1)).toBeCloseTo(10000, 6);
+  });
+
+  it('encodes 100 cd/m² at about 50.8% signal', () => {
+    expect(pqEncode(100)).toBeCloseTo(0.5081, 4);
+  });
+
+  it.each(PQ_LEVELS)('puts %s at the BT.2408 signal level', (_name, nits, signal) => {
+    expect(pqEncode(nits)).toBeCloseTo(signal, 2);
+  });
+
+  it.each([0.001, 0.1, 1, 48, 203, 1000, 4000, 10000])('decodes its own encoding of %f cd/m²', (nits) => {
+    expect(pqDecode(pqEncode(nits)) / nits).toBeCloseTo(1, 9);
+  });
+
+  it('clamps out-of-range input', () => {
+    expect(pqEncode(20000)).toBe(pqEncode(10000));
+    expect(pqEncode(-5)).toBe(pqEncode(0));
+  });
+});
+
+describe('HLG (ARIB STD-B67)', () => {
+  it('meets the square-root and log segments at E = 1/12', () => {
+    expect(hlgEncode(1 / 12)).toBeCloseTo(0.5, 12);
+    expect(hlgEncode(1 / 12 + 1e-9)).toBeCloseTo(0.5, 6);
+  });
+
+  it('reaches full signal at E = 1', () => {
+    expect(hlgEncode(1)).toBeCloseTo(1, 6);
+    expect(hlgEncode(0)).toBe(0);
+  });
+
+  it.each([0, 0.01, 1 / 12, 0.2, 0.5, 1])('decodes its own encoding of %f', (value) => {
+    expect(hlgDecode(hlgEncode(value))).toBeCloseTo(value, 12);
+  });
+});
+
+describe('Rec.2100 encoding', () => {
+  it('puts D65 reference white at 58% PQ and 75% HLG on every channel', () => {
+    const pq = XYZToRec2100PQ(D65_WHITE_XYZ);
+    const hlg = XYZToRec2100HLG(D65_WHITE_XYZ);
+    [pq.r, pq.g, pq.b].forEach((value) => expect(value).toBeCloseTo(0.58, 2));
+    [hlg.r, hlg.g, hlg.b].forEach((value) => expect(value).toBeCloseTo(0.75, 6));
+  });
+
+  it('scales PQ with the chosen reference white luminance', () => {
+    const pq = XYZToRec2100PQ(D65_WHITE_XYZ, 1000);
+    expect(pq.g).toBeCloseTo(pqEncode(1000), 6);
+  });
+
+  it('decodes both signals back to XYZ', () => {
+    const xyz = { x: 0.3, y: 0.25, z: 0.4 };
+    const fromPQ = Rec2100PQToXYZ(XYZToRec2100PQ(xyz, 1000), 1000);
+    const fromHLG = Rec2100HLGToXYZ(XYZToRec2100HLG(xyz));
+    [fromPQ, fromHLG].forEach((decoded) => {
+      expect(decoded.x).toBeCloseTo(xyz.x, 8);
+      expect(decoded.y).toBeCloseTo(xyz.y, 8);
+      expect(decoded.z).toBeCloseTo(xyz.z, 8);
+    });
+  });
+});
+
+describe('toCodeValue', () => {
+  it('uses BT.2100 narrow and full ranges', () => {
+    expect(toCodeValue(0, 10)).toBe(64);
+    expect(toCodeValue(1, 10)).toBe(940);
+    expect(toCodeValue(1, 12)).toBe(3760);
+    expect(toCodeValue(1, 10, 'full')).toBe(1023);
+    expect(toCodeValue(0.58, 10)).toBe(572);
+  });
+});
@@ -0,0 +1,114 @@
+// Rec.2100 HDR encoding: PQ (SMPTE ST 2084) and HLG (ARIB STD-B67)
+import { XYZColor, RGBColor, XYZToRGB, RGBToXYZ } from './colorConversions';
+
+export type CodeValueRange = 'full' | 'narrow';
+
+export const PQ_MAX_LUMINANCE = 10000; // cd/m²
+export const DEFAULT_SDR_REFERENCE_WHITE = 203; // cd/m², BT.2408
+
+// HLG signal level of reference white (BT.2408)
+const HLG_REFERENCE_WHITE_SIGNAL = 0.75;
+
+// ST 2084 constants
+const PQ_M1 = 2610 / 16384;
+const PQ_M2 = (2523 / 4096) * 128;
+const PQ_C1 = 3424 / 4096;
+const PQ_C2 = (2413 / 4096) * 32;
+const PQ_C3 = (2392 / 4096) * 32;
+
+// ARIB STD-B67 constants
+const HLG_A = 0.17883277;
+const HLG_B = 1 - 4 * HLG_A;
+const HLG_C = 0.5 - HLG_A * Math.log(4 * HLG_A);
+
+// PQ inverse EOTF: absolute luminance (cd/m²) -> signal 0-1
+export function pqEncode(nits: number): number {
+  const y = Math.max(0, Math.min(PQ_MAX_LUMINANCE, nits)) / PQ_MAX_LUMINANCE;
+  const p = Math.pow(y, PQ_M1);
+  return Math.pow((PQ_C1 + PQ_C2 * p) / (1 + PQ_C3 * p), PQ_M2);
+}
+
+// PQ EOTF: signal 0-1 -> absolute luminance (cd/m²)
+export function pqDecode(signal: number): number {
+  const p = Math.pow(Math.max(0, Math.min(1, signal)), 1 / PQ_M2);
+  return PQ_MAX_LUMINANCE * Math.pow(Math.max(0, p - PQ_C1) / (PQ_C2 - PQ_C3 * p), 1 / PQ_M1);
+}
+
+// HLG OETF: scene linear 0-1 -> signal 0-1
+export function hlgEncode(value: number): number {
+  const e = Math.max(0, value);
+  return e <= 1 / 12 ? Math.sqrt(3 * e) : HLG_A * Math.log(12 * e - HLG_B) + HLG_C;
+}
+
+// HLG inverse OETF: signal 0-1 -> scene linear 0-1
+export function hlgDecode(signal: number): number {
+  const e = Math.max(0, signal);
+  return e <= 0.5 ? (e * e) / 3 : (Math.exp((e - HLG_C) / HLG_A) + HLG_B) / 12;
+}
+
+// Rec.2020 linear RGB where 1.0 is reference white, negatives clipped
+function XYZToRec2100Linear(xyz: XYZColor): RGBColor {
+  const rgb = XYZToRGB(xyz, 'Rec2020');
+  return { r: Math.max(0, rgb.r), g: Math.max(0, rgb.g), b: Math.max(0, rgb.b) };
+}
+
+// XYZ (Y = 1 at reference white) to PQ-encoded Rec.2100 R'G'B' (0-1)
+export function XYZToRec2100PQ(xyz: XYZColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): RGBColor {
+  const rgb = XYZToRec2100Linear(xyz);
+  return {
+    r: pqEncode(rgb.r * referenceWhite),
+    g: pqEncode(rgb.g * referenceWhite),
+    b: pqEncode(rgb.b * referenceWhite)
+  };
+}
+
+// PQ-encoded Rec.2100 R'G'B' (0-1) back to XYZ (Y = 1 at reference white)
+export function Rec2100PQToXYZ(signal: RGBColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): XYZColor {
+  return RGBToXYZ(
+    {
+      r: pqDecode(signal.r) / referenceWhite,
+      g: pqDecode(signal.g) / referenceWhite,
+      b: pqDecode(signal.b) / referenceWhite
+    },
+    'Rec2020'
+  );
+}
+
+// XYZ (Y = 1 at reference white) to HLG-encoded Rec.2100 R'G'B' (0-1).
+// HLG is relative, so reference white lands on 75% signal whatever its luminance.
+export function XYZToRec2100HLG(xyz: XYZColor): RGBColor {
+  const rgb = XYZToRec2100Linear(xyz);
+  const scale = hlgDecode(HLG_REFERENCE_WHITE_SIGNAL);
+  return {
+    r: Math.min(1, hlgEncode(rgb.r * scale)),
+    g: Math.min(1, hlgEncode(rgb.g * scale)),
+    b: Math.min(1, hlgEncode(rgb.b * scale))
+  };
+}
+
+// HLG-encoded Rec.2100 R'G'B' (0-1) back to XYZ (Y = 1 at reference white)
+export function Rec2100HLGToXYZ(signal: RGBColor): XYZColor {
+  const scale = hlgDecode(HLG_REFERENCE_WHITE_SIGNAL);
+  return RGBToXYZ(
+    { r: hlgDecode(signal.r) / scale, g: hlgDecode(signal.g) / scale, b: hlgDecode(signal.b) / scale },
+    'Rec2020'
+  );
+}
+
+// Quantise a 0-1 signal to an integer code value (narrow range per BT.2100)
+export function toCodeValue(signal: number, bitDepth: number, range: CodeValueRange = 'narrow'): number {
+  const clamped = Math.max(0, Math.min(1, signal));
+  if (range === 'full') {
+    return Math.round(clamped * (2 ** bitDepth - 1));
+  }
+  return Math.round((219 * clamped + 16) * 2 ** (bitDepth - 8));
+}
+
+// Quantise an R'G'B' signal to code values
+export function toCodeValues(signal: RGBColor, bitDepth: number, range: CodeValueRange = 'narrow'): RGBColor {
+  return {
+    r: toCodeValue(signal.r, bitDepth, range),
+    g: toCodeValue(signal.g, bitDepth, range),
+    b: toCodeValue(signal.b, bitDepth, range)
+  };
+}
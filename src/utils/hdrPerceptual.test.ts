@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ICtCpToXYZ,
+  JzCzhzToJzazbz,
+  JzazbzToJzCzhz,
+  JzazbzToXYZ,
+  XYZToICtCp,
+  XYZToJzazbz
+} from './hdrPerceptual';
+import { pqEncode } from './hdr';
+import { D65_WHITE_XYZ, RGBToXYZ, XYZColor } from './colorConversions';
+
+const SAMPLES: XYZColor[] = [
+  D65_WHITE_XYZ,
+  { x: 0.4124, y: 0.2126, z: 0.0193 },
+  { x: 0.3576, y: 0.7152, z: 0.1192 },
+  { x: 0.1805, y: 0.0722, z: 0.9505 },
+  { x: 0.02, y: 0.018, z: 0.03 },
+  { x: 4.5, y: 4.9, z: 5.1 }
+];
+
+function expectXYZClose(actual: XYZColor, expected: XYZColor, digits: number) {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+  expect(actual.z).toBeCloseTo(expected.z, digits);
+}
+
+describe('ICtCp', () => {
+  // colour-science RGB_to_ICtCp example: Rec.2020 linear RGB in cd/m²
+  it('matches the colour-science reference values', () => {
+    const xyz = RGBToXYZ({ r: 0.45620519, g: 0.03081071, b: 0.04091952 }, 'Rec2020');
+    const ictcp = XYZToICtCp(xyz, 1);
+    expect(ictcp.i).toBeCloseTo(0.07351364, 6);
+    expect(ictcp.ct).toBeCloseTo(0.00475253, 6);
+    expect(ictcp.cp).toBeCloseTo(0.09351596, 6);
+  });
+
+  it('puts D65 white on the neutral axis at its PQ level', () => {
+    const ictcp = XYZToICtCp(D65_WHITE_XYZ, 203);
+    expect(ictcp.i).toBeCloseTo(pqEncode(203), 4);
+    expect(ictcp.ct).toBeCloseTo(0, 4);
+    expect(ictcp.cp).toBeCloseTo(0, 4);
+  });
+
+  it.each(SAMPLES)('round trips %o', (xyz) => {
+    expectXYZClose(ICtCpToXYZ(XYZToICtCp(xyz)), xyz, 8);
+  });
+});
+
+describe('Jzazbz', () => {
+  // colour-science XYZ_to_Jzazbz example: absolute XYZ in cd/m²
+  it('matches the colour-science reference values', () => {
+    const jzazbz = XYZToJzazbz({ x: 0.20654008, y: 0.12197225, z: 0.05136952 }, 1);
+    expect(jzazbz.jz).toBeCloseTo(0.00535048, 6);
+    expect(jzazbz.az).toBeCloseTo(0.00924302, 6);
+    expect(jzazbz.bz).toBeCloseTo(0.00526007, 6);
+  });
+
+  it('gives black Jz = 0', () => {
+    expect(XYZToJzazbz({ x: 0, y: 0, z: 0 }).jz).toBeCloseTo(0, 12);
+  });
+
+  it.each(SAMPLES)('round trips %o', (xyz) => {
+    expectXYZClose(JzazbzToXYZ(XYZToJzazbz(xyz)), xyz, 8);
+  });
+
+  it('converts to and from JzCzhz', () => {
+    const jzazbz = XYZToJzazbz({ x: 0.3576, y: 0.7152, z: 0.1192 });
+    const polar = JzazbzToJzCzhz(jzazbz);
+    expect(polar.hz).toBeGreaterThanOrEqual(0);
+    expect(polar.hz).toBeLessThan(360);
+    const back = JzCzhzToJzazbz(polar);
+    expect(back.az).toBeCloseTo(jzazbz.az, 12);
+    expect(back.bz).toBeCloseTo(jzazbz.bz, 12);
+  });
+});
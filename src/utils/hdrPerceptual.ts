@@ -0,0 +1,167 @@
+// HDR perceptual spaces: ICtCp (BT.2100) and Jzazbz / JzCzhz (Safdar et al. 2017)
+import { XYZColor, RGBToXYZ, XYZToRGB } from './colorConversions';
+import { Matrix3, multiplyMatrixVector, invertMatrix } from './matrix';
+import { PQ_MAX_LUMINANCE, DEFAULT_SDR_REFERENCE_WHITE, pqEncode, pqDecode } from './hdr';
+
+export interface ICtCpColor {
+  i: number;
+  ct: number;
+  cp: number;
+}
+
+export interface JzazbzColor {
+  jz: number;
+  az: number;
+  bz: number;
+}
+
+export interface JzCzhzColor {
+  jz: number;
+  cz: number;
+  hz: number;
+}
+
+// Rec.2020 linear RGB -> LMS (BT.2100)
+const ICTCP_RGB_TO_LMS: Matrix3 = [
+  [1688 / 4096, 2146 / 4096, 262 / 4096],
+  [683 / 4096, 2951 / 4096, 462 / 4096],
+  [99 / 4096, 309 / 4096, 3688 / 4096]
+];
+
+// PQ-encoded L'M'S' -> ICtCp
+const ICTCP_LMS_TO_ICTCP: Matrix3 = [
+  [0.5, 0.5, 0],
+  [6610 / 4096, -13613 / 4096, 7003 / 4096],
+  [17933 / 4096, -17390 / 4096, -543 / 4096]
+];
+
+const ICTCP_LMS_TO_RGB = invertMatrix(ICTCP_RGB_TO_LMS);
+const ICTCP_ICTCP_TO_LMS = invertMatrix(ICTCP_LMS_TO_ICTCP);
+
+// PQ applied with odd symmetry so out-of-gamut values survive a round trip
+function signedPQEncode(nits: number): number {
+  return Math.sign(nits) * pqEncode(Math.abs(nits));
+}
+
+function signedPQDecode(signal: number): number {
+  return Math.sign(signal) * pqDecode(Math.abs(signal));
+}
+
+// Convert XYZ (Y = 1 at reference white) to ICtCp
+export function XYZToICtCp(xyz: XYZColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): ICtCpColor {
+  const rgb = XYZToRGB(xyz, 'Rec2020');
+  const lms = multiplyMatrixVector(ICTCP_RGB_TO_LMS, { x: rgb.r, y: rgb.g, z: rgb.b });
+  const encoded = {
+    x: signedPQEncode(lms.x * referenceWhite),
+    y: signedPQEncode(lms.y * referenceWhite),
+    z: signedPQEncode(lms.z * referenceWhite)
+  };
+  const { x: i, y: ct, z: cp } = multiplyMatrixVector(ICTCP_LMS_TO_ICTCP, encoded);
+  return { i, ct, cp };
+}
+
+// Convert ICtCp to XYZ (Y = 1 at reference white)
+export function ICtCpToXYZ(ictcp: ICtCpColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): XYZColor {
+  const encoded = multiplyMatrixVector(ICTCP_ICTCP_TO_LMS, { x: ictcp.i, y: ictcp.ct, z: ictcp.cp });
+  const lms = {
+    x: signedPQDecode(encoded.x) / referenceWhite,
+    y: signedPQDecode(encoded.y) / referenceWhite,
+    z: signedPQDecode(encoded.z) / referenceWhite
+  };
+  const { x: r, y: g, z: b } = multiplyMatrixVector(ICTCP_LMS_TO_RGB, lms);
+  return RGBToXYZ({ r, g, b }, 'Rec2020');
+}
+
+// Jzazbz constants
+const JZ_B = 1.15;
+const JZ_G = 0.66;
+const JZ_D = -0.56;
+const JZ_D0 = 1.6295499532821565e-11;
+const JZ_N = 2610 / 16384;
+const JZ_P = (1.7 * 2523) / 32;
+const JZ_C1 = 3424 / 4096;
+const JZ_C2 = 2413 / 128;
+const JZ_C3 = 2392 / 128;
+
+const JZ_XYZ_TO_LMS: Matrix3 = [
+  [0.41478972, 0.579999, 0.014648],
+  [-0.20151, 1.120649, 0.0531008],
+  [-0.0166008, 0.2648, 0.6684799]
+];
+
+const JZ_LMS_TO_IAB: Matrix3 = [
+  [0.5, 0.5, 0],
+  [3.524, -4.066708, 0.542708],
+  [0.199076, 1.096799, -1.295875]
+];
+
+const JZ_LMS_TO_XYZ = invertMatrix(JZ_XYZ_TO_LMS);
+const JZ_IAB_TO_LMS = invertMatrix(JZ_LMS_TO_IAB);
+
+// Jzazbz variant of the PQ curve (absolute cd/m² in, signal out)
+function jzEncode(nits: number): number {
+  const p = Math.pow(Math.max(0, nits) / PQ_MAX_LUMINANCE, JZ_N);
+  return Math.pow((JZ_C1 + JZ_C2 * p) / (1 + JZ_C3 * p), JZ_P);
+}
+
+function jzDecode(signal: number): number {
+  const p = Math.pow(Math.max(0, signal), 1 / JZ_P);
+  return PQ_MAX_LUMINANCE * Math.pow(Math.max(0, (JZ_C1 - p) / (JZ_C3 * p - JZ_C2)), 1 / JZ_N);
+}
+
+// Convert XYZ (Y = 1 at reference white) to Jzazbz
+export function XYZToJzazbz(xyz: XYZColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): JzazbzColor {
+  const X = xyz.x * referenceWhite;
+  const Y = xyz.y * referenceWhite;
+  const Z = xyz.z * referenceWhite;
+
+  const lms = multiplyMatrixVector(JZ_XYZ_TO_LMS, {
+    x: JZ_B * X - (JZ_B - 1) * Z,
+    y: JZ_G * Y - (JZ_G - 1) * X,
+    z: Z
+  });
+  const iab = multiplyMatrixVector(JZ_LMS_TO_IAB, {
+    x: jzEncode(lms.x),
+    y: jzEncode(lms.y),
+    z: jzEncode(lms.z)
+  });
+
+  const jz = ((1 + JZ_D) * iab.x) / (1 + JZ_D * iab.x) - JZ_D0;
+  return { jz, az: iab.y, bz: iab.z };
+}
+
+// Convert Jzazbz to XYZ (Y = 1 at reference white)
+export function JzazbzToXYZ(jzazbz: JzazbzColor, referenceWhite = DEFAULT_SDR_REFERENCE_WHITE): XYZColor {
+  const jz = jzazbz.jz + JZ_D0;
+  const iz = jz / (1 + JZ_D - JZ_D * jz);
+
+  const encoded = multiplyMatrixVector(JZ_IAB_TO_LMS, { x: iz, y: jzazbz.az, z: jzazbz.bz });
+  const modified = multiplyMatrixVector(JZ_LMS_TO_XYZ, {
+    x: jzDecode(encoded.x),
+    y: jzDecode(encoded.y),
+    z: jzDecode(encoded.z)
+  });
+
+  const X = (modified.x + (JZ_B - 1) * modified.z) / JZ_B;
+  const Y = (modified.y + (JZ_G - 1) * X) / JZ_G;
+  return { x: X / referenceWhite, y: Y / referenceWhite, z: modified.z / referenceWhite };
+}
+
+// Convert Jzazbz to JzCzhz (polar form)
+export function JzazbzToJzCzhz(jzazbz: JzazbzColor): JzCzhzColor {
+  const cz = Math.sqrt(jzazbz.az * jzazbz.az + jzazbz.bz * jzazbz.bz);
+  const hz = Math.atan2(jzazbz.bz, jzazbz.az) * 180 / Math.PI;
+
+  return { jz: jzazbz.jz, cz, hz: hz < 0 ? hz + 360 : hz };
+}
+
+// Convert JzCzhz to Jzazbz
+export function JzCzhzToJzazbz(jzczhz: JzCzhzColor): JzazbzColor {
+  const hr = jzczhz.hz * Math.PI / 180;
+
+  return {
+    jz: jzczhz.jz,
+    az: jzczhz.cz * Math.cos(hr),
+    bz: jzczhz.cz * Math.sin(hr)
+  };
+}
@@ -0,0 +1,86 @@
+// CIE standard illuminants and their white points
+import { XYZColor, xyYToXYZ } from './colorConversions';
+import { StandardObserver } from './colorMatchingFunctions';
+
+export type IlluminantName = 'A' | 'C' | 'D50' | 'D55' | 'D65' | 'D75' | 'E' | 'F2' | 'F7' | 'F11';
+
+export interface IlluminantChromaticity {
+  x: number;
+  y: number;
+}
+
+export interface Illuminant {
+  name: IlluminantName;
+  description: string;
+  chromaticity: Record<StandardObserver, IlluminantChromaticity>;
+}
+
+// White point chromaticities per standard observer (2° D65 rounded as in sRGB)
+export const STANDARD_ILLUMINANTS: Record<IlluminantName, Illuminant> = {
+  A: {
+    name: 'A',
+    description: 'Incandescent / tungsten (2856K)',
+    chromaticity: { CIE1931_2: { x: 0.44757, y: 0.40745 }, CIE1964_10: { x: 0.45117, y: 0.40594 } }
+  },
+  C: {
+    name: 'C',
+    description: 'Average daylight (6774K)',
+    chromaticity: { CIE1931_2: { x: 0.31006, y: 0.31616 }, CIE1964_10: { x: 0.31039, y: 0.31905 } }
+  },
+  D50: {
+    name: 'D50',
+    description: 'Horizon light, ICC PCS (5003K)',
+    chromaticity: { CIE1931_2: { x: 0.34567, y: 0.35850 }, CIE1964_10: { x: 0.34773, y: 0.35952 } }
+  },
+  D55: {
+    name: 'D55',
+    description: 'Mid-morning daylight (5503K)',
+    chromaticity: { CIE1931_2: { x: 0.33242, y: 0.34743 }, CIE1964_10: { x: 0.33411, y: 0.34877 } }
+  },
+  D65: {
+    name: 'D65',
+    description: 'Noon daylight, sRGB (6504K)',
+    chromaticity: { CIE1931_2: { x: 0.3127, y: 0.3290 }, CIE1964_10: { x: 0.31382, y: 0.33100 } }
+  },
+  D75: {
+    name: 'D75',
+    description: 'North sky daylight (7504K)',
+    chromaticity: { CIE1931_2: { x: 0.29902, y: 0.31485 }, CIE1964_10: { x: 0.29968, y: 0.31740 } }
+  },
+  E: {
+    name: 'E',
+    description: 'Equal energy (5454K)',
+    chromaticity: { CIE1931_2: { x: 1 / 3, y: 1 / 3 }, CIE1964_10: { x: 1 / 3, y: 1 / 3 } }
+  },
+  F2: {
+    name: 'F2',
+    description: 'Cool white fluorescent (4230K)',
+    chromaticity: { CIE1931_2: { x: 0.37208, y: 0.37529 }, CIE1964_10: { x: 0.37928, y: 0.36723 } }
+  },
+  F7: {
+    name: 'F7',
+    description: 'Broadband daylight fluorescent (6500K)',
+    chromaticity: { CIE1931_2: { x: 0.31292, y: 0.32933 }, CIE1964_10: { x: 0.31565, y: 0.32951 } }
+  },
+  F11: {
+    name: 'F11',
+    description: 'Narrowband white fluorescent (4000K)',
+    chromaticity: { CIE1931_2: { x: 0.38052, y: 0.37713 }, CIE1964_10: { x: 0.38541, y: 0.37123 } }
+  }
+};
+
+export const ILLUMINANT_NAMES = Object.keys(STANDARD_ILLUMINANTS) as IlluminantName[];
+
+// Get the white point chromaticity of a standard illuminant
+export function getIlluminantChromaticity(
+  name: IlluminantName,
+  observer: StandardObserver = 'CIE1931_2'
+): IlluminantChromaticity {
+  return STANDARD_ILLUMINANTS[name].chromaticity[observer];
+}
+
+// Get the XYZ white point (Y = 1) of a standard illuminant
+export function getIlluminantXYZ(name: IlluminantName, observer: StandardObserver = 'CIE1931_2'): XYZColor {
+  const { x, y } = getIlluminantChromaticity(name, observer);
+  return xyYToXYZ({ x, y, Y: 1 });
+}
@@ -0,0 +1,52 @@
+// Small 3x3 matrix helpers for color space math
+export type Matrix3 = number[][];
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Multiply a 3x3 matrix by a column vector
+export function multiplyMatrixVector(m: Matrix3, v: Vector3): Vector3 {
+  return {
+    x: m[0][0] * v.x + m[0][1] * v.y + m[0][2] * v.z,
+    y: m[1][0] * v.x + m[1][1] * v.y + m[1][2] * v.z,
+    z: m[2][0] * v.x + m[2][1] * v.y + m[2][2] * v.z
+  };
+}
+
+// Multiply two 3x3 matrices (a * b)
+export function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row) =>
+    [0, 1, 2].map((j) => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])
+  );
+}
+
+// Invert a 3x3 matrix via its adjugate
+export function invertMatrix(m: Matrix3): Matrix3 {
+  const [a, b, c] = m[0];
+  const [d, e, f] = m[1];
+  const [g, h, i] = m[2];
+
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (det === 0) throw new Error('Matrix is not invertible');
+
+  return [
+    [A / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [C / det, (b * g - a * h) / det, (a * e - b * d) / det]
+  ];
+}
+
+// Build a diagonal matrix from a vector
+export function diagonalMatrix(v: Vector3): Matrix3 {
+  return [
+    [v.x, 0, 0],
+    [0, v.y, 0],
+    [0, 0, v.z]
+  ];
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getGamutTriangle, getRGBColorSpace, getRGBColorSpaces } from './rgbColorSpaces';
+import { Matrix3, multiplyMatrices, multiplyMatrixVector } from './matrix';
+
+// Linear RGB -> XYZ-D65 matrices published in CSS Color 4 (sample code), as exact fractions
+const PUBLISHED_MATRICES: [string, Matrix3][] = [
+  [
+    'sRGB',
+    [
+      [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+      [87098 / 409605, 175762 / 245763, 12673 / 175545],
+      [7918 / 409605, 87881 / 737289, 1001167 / 1053270]
+    ]
+  ],
+  [
+    'P3',
+    [
+      [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+      [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+      [0, 32229 / 714400, 5220557 / 5000800]
+    ]
+  ],
+  [
+    'Rec2020',
+    [
+      [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+      [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+      [0, 19567812 / 697040785, 295819943 / 278816314]
+    ]
+  ]
+];
+
+// White (RGB 1, 1, 1) in XYZ
+function whiteXYZ(toXYZ: Matrix3) {
+  return multiplyMatrixVector(toXYZ, { x: 1, y: 1, z: 1 });
+}
+
+describe('derived RGB -> XYZ matrices', () => {
+  it.each(PUBLISHED_MATRICES)('match the published %s matrix', (id, expected) => {
+    const { toXYZ } = getRGBColorSpace(id);
+    expected.forEach((row, i) => row.forEach((value, j) => expect(toXYZ[i][j]).toBeCloseTo(value, 12)));
+  });
+
+  it.each(getRGBColorSpaces().map((space) => [space.id, space]))('%s: toXYZ · fromXYZ is the identity', (_, space) => {
+    const product = multiplyMatrices(space.toXYZ, space.fromXYZ);
+    product.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(i === j ? 1 : 0, 12)));
+  });
+
+  it.each(
+    getRGBColorSpaces()
+      .filter((space) => space.adaptToD65 !== false)
+      .map((space) => [space.id, space])
+  )('%s: white lands on D65', (_, space) => {
+    const white = whiteXYZ(space.toXYZ);
+    expect(white.x).toBeCloseTo(0.3127 / 0.329, 12);
+    expect(white.y).toBeCloseTo(1, 12);
+    expect(white.z).toBeCloseTo((1 - 0.3127 - 0.329) / 0.329, 12);
+  });
+});
+
+describe('DCI-P3', () => {
+  it('keeps its theatrical white instead of adapting to D65', () => {
+    const white = whiteXYZ(getRGBColorSpace('DCI-P3').toXYZ);
+    expect(white.x).toBeCloseTo(0.314 / 0.351, 12);
+    expect(white.y).toBeCloseTo(1, 12);
+    expect(white.z).toBeCloseTo((1 - 0.314 - 0.351) / 0.351, 12);
+  });
+
+  it('shares the Display P3 gamut triangle', () => {
+    const dci = getGamutTriangle('DCI-P3');
+    getGamutTriangle('P3').forEach(({ x, y }, index) => {
+      expect(dci[index].x).toBeCloseTo(x, 12);
+      expect(dci[index].y).toBeCloseTo(y, 12);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+// Registry of RGB color spaces defined by primaries, white point and transfer function
+import { XYZColor } from './colorConversions';
+import { Matrix3, multiplyMatrices, multiplyMatrixVector, invertMatrix, diagonalMatrix } from './matrix';
+import { getAdaptationMatrix } from './chromaticAdaptation';
+import { TransferFunctionName, TransferFunction, getTransferFunction } from './transferFunctions';
+
+export interface Chromaticity {
+  x: number;
+  y: number;
+}
+
+export interface RGBColorSpaceDefinition {
+  id: string;
+  label: string;
+  primaries: { red: Chromaticity; green: Chromaticity; blue: Chromaticity };
+  whitePoint: Chromaticity;
+  transfer: TransferFunctionName;
+  cssId?: string; // predefined CSS color() space, if any
+  adaptToD65?: boolean; // Bradford-adapt a non-D65 white (default true)
+  color: string; // gamut overlay color
+}
+
+// A registered space with its matrices to and from D65 XYZ and its transfer curve
+export interface RGBColorSpace extends RGBColorSpaceDefinition {
+  toXYZ: Matrix3;
+  fromXYZ: Matrix3;
+  transferFunction: TransferFunction;
+}
+
+const D65_CHROMATICITY: Chromaticity = { x: 0.3127, y: 0.3290 };
+const D50_CHROMATICITY: Chromaticity = { x: 0.3457, y: 0.3585 };
+const ACES_WHITE_CHROMATICITY: Chromaticity = { x: 0.32168, y: 0.33767 };
+
+const SRGB_PRIMARIES = {
+  red: { x: 0.64, y: 0.33 },
+  green: { x: 0.30, y: 0.60 },
+  blue: { x: 0.15, y: 0.06 }
+};
+
+const P3_PRIMARIES = {
+  red: { x: 0.680, y: 0.320 },
+  green: { x: 0.265, y: 0.690 },
+  blue: { x: 0.150, y: 0.060 }
+};
+
+export const RGB_COLOR_SPACE_DEFINITIONS: RGBColorSpaceDefinition[] = [
+  {
+    id: 'sRGB',
+    label: 'sRGB',
+    primaries: SRGB_PRIMARIES,
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'sRGB',
+    cssId: 'srgb',
+    color: '#ef4444'
+  },
+  {
+    id: 'P3',
+    label: 'Display P3',
+    primaries: P3_PRIMARIES,
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'sRGB',
+    cssId: 'display-p3',
+    color: '#10b981'
+  },
+  {
+    // Theatrical white is kept as-is; cinema viewers are not adapted to D65
+    id: 'DCI-P3',
+    label: 'DCI-P3',
+    primaries: P3_PRIMARIES,
+    whitePoint: { x: 0.314, y: 0.351 },
+    transfer: 'gamma26',
+    adaptToD65: false,
+    color: '#14b8a6'
+  },
+  {
+    id: 'Rec709',
+    label: 'Rec.709',
+    primaries: SRGB_PRIMARIES,
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'BT1886',
+    color: '#f97316'
+  },
+  {
+    id: 'Rec2020',
+    label: 'Rec.2020',
+    primaries: {
+      red: { x: 0.708, y: 0.292 },
+      green: { x: 0.170, y: 0.797 },
+      blue: { x: 0.131, y: 0.046 }
+    },
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'Rec2020',
+    cssId: 'rec2020',
+    color: '#8b5cf6'
+  },
+  {
+    id: 'AdobeRGB',
+    label: 'Adobe RGB (1998)',
+    primaries: {
+      red: { x: 0.64, y: 0.33 },
+      green: { x: 0.21, y: 0.71 },
+      blue: { x: 0.15, y: 0.06 }
+    },
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'AdobeRGB',
+    cssId: 'a98-rgb',
+    color: '#ec4899'
+  },
+  {
+    id: 'ProPhoto',
+    label: 'ProPhoto RGB',
+    primaries: {
+      red: { x: 0.734699, y: 0.265301 },
+      green: { x: 0.159597, y: 0.840403 },
+      blue: { x: 0.036598, y: 0.000105 }
+    },
+    whitePoint: D50_CHROMATICITY,
+    transfer: 'ProPhoto',
+    cssId: 'prophoto-rgb',
+    color: '#eab308'
+  },
+  {
+    id: 'ACEScg',
+    label: 'ACEScg',
+    primaries: {
+      red: { x: 0.713, y: 0.293 },
+      green: { x: 0.165, y: 0.830 },
+      blue: { x: 0.128, y: 0.044 }
+    },
+    whitePoint: ACES_WHITE_CHROMATICITY,
+    transfer: 'linear',
+    color: '#0ea5e9'
+  },
+  {
+    id: 'ACES2065-1',
+    label: 'ACES2065-1',
+    primaries: {
+      red: { x: 0.7347, y: 0.2653 },
+      green: { x: 0.0, y: 1.0 },
+      blue: { x: 0.0001, y: -0.077 }
+    },
+    whitePoint: ACES_WHITE_CHROMATICITY,
+    transfer: 'linear',
+    color: '#6366f1'
+  },
+  {
+    id: 'SMPTE-C',
+    label: 'SMPTE-C',
+    primaries: {
+      red: { x: 0.630, y: 0.340 },
+      green: { x: 0.310, y: 0.595 },
+      blue: { x: 0.155, y: 0.070 }
+    },
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'BT1886',
+    color: '#a16207'
+  },
+  {
+    id: 'EBU',
+    label: 'EBU / PAL',
+    primaries: {
+      red: { x: 0.64, y: 0.33 },
+      green: { x: 0.29, y: 0.60 },
+      blue: { x: 0.15, y: 0.06 }
+    },
+    whitePoint: D65_CHROMATICITY,
+    transfer: 'BT1886',
+    color: '#64748b'
+  },
+  {
+    id: 'NTSC1953',
+    label: 'NTSC (1953)',
+    primaries: {
+      red: { x: 0.67, y: 0.33 },
+      green: { x: 0.21, y: 0.71 },
+      blue: { x: 0.14, y: 0.08 }
+    },
+    whitePoint: { x: 0.310, y: 0.316 },
+    transfer: 'gamma22',
+    color: '#78716c'
+  }
+];
+
+// xy chromaticity to XYZ with Y = 1
+function chromaticityToXYZ({ x, y }: Chromaticity): XYZColor {
+  return { x: x / y, y: 1, z: (1 - x - y) / y };
+}
+
+// Linear RGB -> XYZ matrix relative to the space's own white (SMPTE RP 177)
+export function computeRGBToXYZMatrix(
+  primaries: RGBColorSpaceDefinition['primaries'],
+  whitePoint: Chromaticity
+): Matrix3 {
+  const r = chromaticityToXYZ(primaries.red);
+  const g = chromaticityToXYZ(primaries.green);
+  const b = chromaticityToXYZ(primaries.blue);
+  const primaryMatrix: Matrix3 = [
+    [r.x, g.x, b.x],
+    [r.y, g.y, b.y],
+    [r.z, g.z, b.z]
+  ];
+
+  const scale = multiplyMatrixVector(invertMatrix(primaryMatrix), chromaticityToXYZ(whitePoint));
+  return multiplyMatrices(primaryMatrix, diagonalMatrix(scale));
+}
+
+// Derive both matrices, adapting to D65 where the white differs, and attach the transfer curve
+function createRGBColorSpace(definition: RGBColorSpaceDefinition): RGBColorSpace {
+  let toXYZ = computeRGBToXYZMatrix(definition.primaries, definition.whitePoint);
+
+  const isD65 =
+    definition.whitePoint.x === D65_CHROMATICITY.x && definition.whitePoint.y === D65_CHROMATICITY.y;
+  if (!isD65 && definition.adaptToD65 !== false) {
+    const adaptation = getAdaptationMatrix(
+      chromaticityToXYZ(definition.whitePoint),
+      chromaticityToXYZ(D65_CHROMATICITY),
+      'Bradford'
+    );
+    toXYZ = multiplyMatrices(adaptation, toXYZ);
+  }
+
+  return {
+    ...definition,
+    toXYZ,
+    fromXYZ: invertMatrix(toXYZ),
+    transferFunction: getTransferFunction(definition.transfer)
+  };
+}
+
+const registry = new Map<string, RGBColorSpace>(
+  RGB_COLOR_SPACE_DEFINITIONS.map((definition) => [definition.id, createRGBColorSpace(definition)])
+);
+
+// Add or replace a color space at runtime
+export function registerRGBColorSpace(definition: RGBColorSpaceDefinition): RGBColorSpace {
+  const space = createRGBColorSpace(definition);
+  registry.set(definition.id, space);
+  return space;
+}
+
+// Look up a registered color space by id
+export function getRGBColorSpace(id: string): RGBColorSpace {
+  const space = registry.get(id);
+  if (!space) {
+    throw new Error(`Unknown RGB color space: ${id}`);
+  }
+  return space;
+}
+
+// All registered color spaces, in registration order
+export function getRGBColorSpaces(): RGBColorSpace[] {
+  return Array.from(registry.values());
+}
+
+// Gamut triangle (closed) of a space as it lands in the D65 diagram
+export function getGamutTriangle(id: string): Chromaticity[] {
+  const { toXYZ } = getRGBColorSpace(id);
+  const vertices = [0, 1, 2].map((column) => {
+    const X = toXYZ[0][column];
+    const Y = toXYZ[1][column];
+    const Z = toXYZ[2][column];
+    const sum = X + Y + Z;
+    return { x: X / sum, y: Y / sum };
+  });
+  return [...vertices, vertices[0]];
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_LUMINOUS_EFFICACY, parseSPD, resampleSPD, spectrumToXYZ } from './spectral';
+import { getSpectralLocus } from './spectralLocus';
+import { StandardObserver } from './colorMatchingFunctions';
+
+const OBSERVERS: StandardObserver[] = ['CIE1931_2', 'CIE1964_10'];
+
+// Equal-energy spectrum over the whole tabulated range
+const ILLUMINANT_E = [
+  { wavelength: 360, value: 1 },
+  { wavelength: 830, value: 1 }
+];
+
+describe('parseSPD', () => {
+  it('reads CSV with a header row, comments and mixed separators', () => {
+    const spd = parseSPD('nm,power\n# measured\n400,0.5\n410;0.75\n420\t1\n');
+    expect(spd).toEqual([
+      { wavelength: 400, value: 0.5 },
+      { wavelength: 410, value: 0.75 },
+      { wavelength: 420, value: 1 }
+    ]);
+  });
+
+  it('takes the header from the first line that is not blank or a comment', () => {
+    expect(parseSPD('# lamp\n\nnm,power\n400,0.5\n410,1')).toEqual([
+      { wavelength: 400, value: 0.5 },
+      { wavelength: 410, value: 1 }
+    ]);
+  });
+
+  it('reads the JSON array, record and object forms', () => {
+    const expected = [
+      { wavelength: 400, value: 0.5 },
+      { wavelength: 410, value: 1 }
+    ];
+    expect(parseSPD('[[400, 0.5], [410, 1]]')).toEqual(expected);
+    expect(parseSPD('[{"nm": 400, "power": 0.5}, {"wavelength": 410, "value": 1}]')).toEqual(expected);
+    expect(parseSPD('{"410": 1, "400": 0.5}')).toEqual(expected);
+  });
+
+  it('sorts samples and drops repeated wavelengths', () => {
+    expect(parseSPD('420,1\n400,0.5\n420,2')).toEqual([
+      { wavelength: 400, value: 0.5 },
+      { wavelength: 420, value: 1 }
+    ]);
+  });
+
+  it('rejects empty, short, negative and malformed data', () => {
+    expect(() => parseSPD('  ')).toThrow('No spectral data');
+    expect(() => parseSPD('400,1')).toThrow('At least two');
+    expect(() => parseSPD('400,1\n410,-1')).toThrow('negative');
+    expect(() => parseSPD('400,1\n410')).toThrow('Line 2');
+    expect(() => parseSPD('# lamp\n\nnm,power\n400,1\n410')).toThrow('Line 5');
+    expect(() => parseSPD('400,1\n410,abc')).toThrow('not a valid number pair');
+    expect(() => parseSPD('[1, 2')).toThrow('Invalid JSON');
+  });
+});
+
+describe('resampleSPD', () => {
+  it('interpolates linearly and is zero outside the measured range', () => {
+    const samples = resampleSPD([{ wavelength: 400, value: 0 }, { wavelength: 410, value: 1 }], 395, 415, 5);
+    expect(samples.map(({ value }) => value)).toEqual([0, 0, 0.5, 1, 0]);
+  });
+});
+
+describe('spectrumToXYZ', () => {
+  it.each(OBSERVERS)('puts the equal-energy illuminant at x = y = 1/3 (%s)', (observer) => {
+    const { xyz, xyY } = spectrumToXYZ(ILLUMINANT_E, observer);
+    expect(xyz.y).toBe(1);
+    expect(xyY.x).toBeCloseTo(1 / 3, 4);
+    expect(xyY.y).toBeCloseTo(1 / 3, 4);
+  });
+
+  it.each(OBSERVERS)('puts a monochromatic line on the spectral locus (%s)', (observer) => {
+    const line = parseSPD('549,0\n550,1\n551,0');
+    const locusPoint = getSpectralLocus(observer).find(({ wavelength }) => wavelength === 550)!;
+    const { xyY } = spectrumToXYZ(line, observer);
+    expect(xyY.x).toBeCloseTo(locusPoint.x, 6);
+    expect(xyY.y).toBeCloseTo(locusPoint.y, 6);
+  });
+
+  it('gives 683 lm for one watt at 555 nm', () => {
+    const line = parseSPD('554,0\n555,1\n556,0');
+    expect(spectrumToXYZ(line).luminousFlux).toBeCloseTo(MAX_LUMINOUS_EFFICACY, 6);
+  });
+
+  it('rejects spectra with no visible power', () => {
+    expect(() => spectrumToXYZ(parseSPD('900,1\n1000,1'))).toThrow('no luminous power');
+  });
+});
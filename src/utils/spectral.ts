@@ -0,0 +1,200 @@
+// Spectral power distributions: parsing, resampling and integration to XYZ
+import { XYZColor, xyColor, XYZToxyY } from './colorConversions';
+import {
+  StandardObserver,
+  CMF_START_WAVELENGTH,
+  CMF_END_WAVELENGTH,
+  getColorMatchingFunctions
+} from './colorMatchingFunctions';
+
+export interface SpectralSample {
+  wavelength: number;
+  value: number;
+}
+
+export type SpectralPowerDistribution = SpectralSample[];
+
+export interface SpectralIntegrationResult {
+  xyz: XYZColor; // normalized so that Y = 1
+  xyY: xyColor;
+  luminousFlux: number; // 683 lm/W weighted, in the SPD's units × nm
+}
+
+// Maximum luminous efficacy of radiation for photopic vision (lm/W)
+export const MAX_LUMINOUS_EFFICACY = 683;
+
+// Integration grid step (nm)
+const INTEGRATION_STEP = 1;
+
+// Parse an SPD from CSV ("wavelength,value" per line) or JSON text
+export function parseSPD(text: string): SpectralPowerDistribution {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('No spectral data provided');
+
+  const samples = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseSPDJSON(trimmed)
+    : parseSPDCSV(text);
+
+  return normalizeSamples(samples);
+}
+
+function parseSPDJSON(text: string): SpectralSample[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON spectral data');
+  }
+
+  // { "380": 0.1, "385": 0.2, ... }
+  if (!Array.isArray(data)) {
+    if (data === null || typeof data !== 'object') {
+      throw new Error('JSON spectral data must be an array or an object');
+    }
+    return Object.entries(data as Record<string, unknown>).map(([wavelength, value]) => ({
+      wavelength: Number(wavelength),
+      value: Number(value)
+    }));
+  }
+
+  // [[380, 0.1], ...] or [{ "wavelength": 380, "value": 0.1 }, ...]
+  return data.map((entry, index) => {
+    if (Array.isArray(entry)) {
+      return { wavelength: Number(entry[0]), value: Number(entry[1]) };
+    }
+    if (entry !== null && typeof entry === 'object') {
+      const record = entry as Record<string, unknown>;
+      return {
+        wavelength: Number(record.wavelength ?? record.nm ?? record.lambda),
+        value: Number(record.value ?? record.power ?? record.intensity)
+      };
+    }
+    throw new Error(`Unrecognized JSON entry at index ${index}`);
+  });
+}
+
+function parseSPDCSV(text: string): SpectralSample[] {
+  const samples: SpectralSample[] = [];
+  let seenData = false;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const fields = trimmed.split(/[,;\t ]+/);
+    const wavelength = Number(fields[0]);
+    const value = Number(fields[1]);
+
+    // Allow a header row as the first line that is neither blank nor a comment
+    const isFirstDataLine = !seenData;
+    seenData = true;
+    if (isFirstDataLine && !Number.isFinite(wavelength)) return;
+
+    // Line numbers count every line of the file, including comments and blanks
+    if (fields.length < 2) {
+      throw new Error(`Line ${index + 1}: expected "wavelength,value"`);
+    }
+    if (!Number.isFinite(wavelength) || !Number.isFinite(value)) {
+      throw new Error(`Line ${index + 1}: "${trimmed}" is not a valid number pair`);
+    }
+    if (value < 0) {
+      throw new Error(`Line ${index + 1}: negative value`);
+    }
+
+    samples.push({ wavelength, value });
+  });
+
+  return samples;
+}
+
+// Validate, sort and de-duplicate samples
+function normalizeSamples(samples: SpectralSample[]): SpectralPowerDistribution {
+  samples.forEach(({ wavelength, value }, index) => {
+    if (!Number.isFinite(wavelength) || !Number.isFinite(value)) {
+      throw new Error(`Sample ${index + 1} is not a valid number pair`);
+    }
+    if (value < 0) {
+      throw new Error(`Sample ${index + 1} has a negative value`);
+    }
+  });
+
+  const sorted = [...samples].sort((a, b) => a.wavelength - b.wavelength);
+  const unique = sorted.filter((sample, index) =>
+    index === 0 || sample.wavelength !== sorted[index - 1].wavelength
+  );
+
+  if (unique.length < 2) {
+    throw new Error('At least two spectral samples are required');
+  }
+
+  return unique;
+}
+
+// Linearly interpolate an SPD at a wavelength (zero outside its range)
+export function interpolateSPD(spd: SpectralPowerDistribution, wavelength: number): number {
+  if (wavelength < spd[0].wavelength || wavelength > spd[spd.length - 1].wavelength) return 0;
+
+  let low = 0;
+  let high = spd.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (spd[mid].wavelength <= wavelength) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const a = spd[low];
+  const b = spd[high];
+  if (b.wavelength === a.wavelength) return a.value;
+
+  const t = (wavelength - a.wavelength) / (b.wavelength - a.wavelength);
+  return a.value + t * (b.value - a.value);
+}
+
+// Resample an SPD onto a regular wavelength grid
+export function resampleSPD(
+  spd: SpectralPowerDistribution,
+  start: number = CMF_START_WAVELENGTH,
+  end: number = CMF_END_WAVELENGTH,
+  step: number = INTEGRATION_STEP
+): SpectralPowerDistribution {
+  const samples: SpectralPowerDistribution = [];
+  for (let wavelength = start; wavelength <= end; wavelength += step) {
+    samples.push({ wavelength, value: interpolateSPD(spd, wavelength) });
+  }
+  return samples;
+}
+
+// Integrate an SPD against the observer's color matching functions
+export function spectrumToXYZ(
+  spd: SpectralPowerDistribution,
+  observer: StandardObserver = 'CIE1931_2'
+): SpectralIntegrationResult {
+  const cmf = getColorMatchingFunctions(observer);
+  const xBar = cmf.map(([wavelength, x]) => ({ wavelength, value: x }));
+  const yBar = cmf.map(([wavelength, , y]) => ({ wavelength, value: y }));
+  const zBar = cmf.map(([wavelength, , , z]) => ({ wavelength, value: z }));
+
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  resampleSPD(spd).forEach(({ wavelength, value }) => {
+    x += value * interpolateSPD(xBar, wavelength) * INTEGRATION_STEP;
+    y += value * interpolateSPD(yBar, wavelength) * INTEGRATION_STEP;
+    z += value * interpolateSPD(zBar, wavelength) * INTEGRATION_STEP;
+  });
+
+  if (y <= 0) {
+    throw new Error('Spectrum has no luminous power in the visible range');
+  }
+
+  const xyz = { x: x / y, y: 1, z: z / y };
+
+  return {
+    xyz,
+    xyY: XYZToxyY(xyz),
+    luminousFlux: MAX_LUMINOUS_EFFICACY * y
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDominantWavelength,
+  getChromaticityBoundary,
+  getSpectralLocus,
+  isInsideSpectralLocus
+} from './spectralLocus';
+import { StandardObserver } from './colorMatchingFunctions';
+
+// D65 chromaticity for each standard observer
+const D65_WHITES: [StandardObserver, { x: number; y: number }][] = [
+  ['CIE1931_2', { x: 0.31272, y: 0.32903 }],
+  ['CIE1964_10', { x: 0.31382, y: 0.331 }]
+];
+
+const MONOCHROMATIC_WAVELENGTHS = [450, 480, 520, 560, 580, 620, 650];
+
+describe.each(D65_WHITES)('calculateDominantWavelength (%s)', (observer, white) => {
+  const locus = getSpectralLocus(observer);
+
+  it.each(MONOCHROMATIC_WAVELENGTHS)('gives a %i nm locus point itself at full purity', (wavelength) => {
+    const point = locus.find((entry) => entry.wavelength === wavelength)!;
+    const result = calculateDominantWavelength(point.x, point.y, white, observer)!;
+    expect(result.complementary).toBe(false);
+    expect(result.wavelength).toBeCloseTo(wavelength, 6);
+    expect(result.excitationPurity).toBeCloseTo(1, 9);
+    expect(result.colorimetricPurity).toBeCloseTo(1, 9);
+  });
+
+  it('treats the white point as achromatic', () => {
+    expect(calculateDominantWavelength(white.x, white.y, white, observer)).toBeNull();
+  });
+
+  it('halves the purity halfway to the locus', () => {
+    const point = locus.find((entry) => entry.wavelength === 520)!;
+    const result = calculateDominantWavelength((white.x + point.x) / 2, (white.y + point.y) / 2, white, observer)!;
+    expect(result.wavelength).toBeCloseTo(520, 6);
+    expect(result.excitationPurity).toBeCloseTo(0.5, 9);
+  });
+
+  it('gives purples a complementary wavelength opposite the sample', () => {
+    const purple = { x: 0.35, y: 0.15 };
+    expect(isInsideSpectralLocus(purple.x, purple.y, getChromaticityBoundary(observer))).toBe(true);
+
+    const result = calculateDominantWavelength(purple.x, purple.y, white, observer)!;
+    expect(result.complementary).toBe(true);
+    expect(result.wavelength).toBeGreaterThan(490);
+    expect(result.wavelength).toBeLessThan(570);
+    expect(result.excitationPurity).toBeGreaterThan(0);
+    expect(result.excitationPurity).toBeLessThan(1);
+
+    // White lies between the sample and the complementary locus point
+    const { x, y } = result.complementaryPoint!;
+    const cross = (purple.x - white.x) * (y - white.y) - (purple.y - white.y) * (x - white.x);
+    const dot = (purple.x - white.x) * (x - white.x) + (purple.y - white.y) * (y - white.y);
+    expect(cross).toBeCloseTo(0, 9);
+    expect(dot).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,213 @@
+// Spectral locus and purple line derived from tabulated color matching functions
+import {
+  ColorMatchingFunctionRow,
+  StandardObserver,
+  getColorMatchingFunctions
+} from './colorMatchingFunctions';
+
+export interface SpectralLocusPoint {
+  wavelength: number;
+  x: number;
+  y: number;
+}
+
+export interface ChromaticityPoint {
+  x: number;
+  y: number;
+}
+
+// Wavelengths labelled along the locus on the diagram
+export const LOCUS_LABEL_WAVELENGTHS = [460, 480, 490, 500, 510, 520, 540, 560, 580, 600, 620, 700];
+
+// Chromaticity of each monochromatic stimulus in a CMF table
+export function computeSpectralLocus(cmf: ColorMatchingFunctionRow[]): SpectralLocusPoint[] {
+  return cmf
+    .filter(([, xBar, yBar, zBar]) => xBar + yBar + zBar > 0)
+    .map(([wavelength, xBar, yBar, zBar]) => {
+      const sum = xBar + yBar + zBar;
+      return { wavelength, x: xBar / sum, y: yBar / sum };
+    });
+}
+
+// Closed boundary: the spectral locus followed by the purple line back to its start
+export function computeChromaticityBoundary(locus: SpectralLocusPoint[]): ChromaticityPoint[] {
+  return [...locus, locus[0]].map(({ x, y }) => ({ x, y }));
+}
+
+const SPECTRAL_LOCI: Record<StandardObserver, SpectralLocusPoint[]> = {
+  CIE1931_2: computeSpectralLocus(getColorMatchingFunctions('CIE1931_2')),
+  CIE1964_10: computeSpectralLocus(getColorMatchingFunctions('CIE1964_10'))
+};
+
+const CHROMATICITY_BOUNDARIES: Record<StandardObserver, ChromaticityPoint[]> = {
+  CIE1931_2: computeChromaticityBoundary(SPECTRAL_LOCI.CIE1931_2),
+  CIE1964_10: computeChromaticityBoundary(SPECTRAL_LOCI.CIE1964_10)
+};
+
+// Spectral locus for a standard observer
+export function getSpectralLocus(observer: StandardObserver = 'CIE1931_2'): SpectralLocusPoint[] {
+  return SPECTRAL_LOCI[observer];
+}
+
+// Closed locus boundary (with purple line) for a standard observer
+export function getChromaticityBoundary(observer: StandardObserver = 'CIE1931_2'): ChromaticityPoint[] {
+  return CHROMATICITY_BOUNDARIES[observer];
+}
+
+export const SPECTRAL_LOCUS = SPECTRAL_LOCI.CIE1931_2;
+
+export const CHROMATICITY_BOUNDARY = CHROMATICITY_BOUNDARIES.CIE1931_2;
+
+// Check whether a chromaticity lies inside the closed boundary (ray casting)
+export function isInsideSpectralLocus(
+  x: number,
+  y: number,
+  boundary: ChromaticityPoint[] = CHROMATICITY_BOUNDARY
+): boolean {
+  let inside = false;
+
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const a = boundary[i];
+    const b = boundary[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Nearest point to (x, y) on the closed boundary
+export function nearestBoundaryPoint(
+  x: number,
+  y: number,
+  boundary: ChromaticityPoint[] = CHROMATICITY_BOUNDARY
+): ChromaticityPoint {
+  let best: ChromaticityPoint = boundary[0];
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < boundary.length - 1; i++) {
+    const a = boundary[i];
+    const b = boundary[i + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared));
+
+    const px = a.x + t * dx;
+    const py = a.y + t * dy;
+    const distance = (px - x) * (px - x) + (py - y) * (py - y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { x: px, y: py };
+    }
+  }
+
+  return best;
+}
+
+// Keep a chromaticity inside the boundary, snapping outside points onto it
+export function clampToSpectralLocus(
+  x: number,
+  y: number,
+  boundary: ChromaticityPoint[] = CHROMATICITY_BOUNDARY
+): ChromaticityPoint {
+  return isInsideSpectralLocus(x, y, boundary) ? { x, y } : nearestBoundaryPoint(x, y, boundary);
+}
+
+export interface DominantWavelengthResult {
+  wavelength: number | null; // dominant wavelength, or the complementary one for purples
+  complementary: boolean;
+  boundaryPoint: ChromaticityPoint; // where the ray from white through the sample meets the boundary
+  complementaryPoint: ChromaticityPoint | null; // locus point opposite the sample, for purples
+  excitationPurity: number;
+  colorimetricPurity: number;
+}
+
+// Longest wavelength used for dominant wavelength; beyond it the locus no longer moves
+const DOMINANT_WAVELENGTH_MAX = 700;
+
+interface RayHit {
+  t: number;
+  point: ChromaticityPoint;
+  wavelength: number | null;
+}
+
+// First crossing of the ray origin + t * direction (t > 0) with the locus or the purple line
+function intersectBoundary(
+  origin: ChromaticityPoint,
+  direction: ChromaticityPoint,
+  locus: SpectralLocusPoint[]
+): RayHit | null {
+  const segments: [SpectralLocusPoint, SpectralLocusPoint, boolean][] = locus
+    .slice(1)
+    .map((point, index) => [locus[index], point, false]);
+  segments.push([locus[locus.length - 1], locus[0], true]);
+
+  let best: RayHit | null = null;
+  segments.forEach(([a, b, isPurpleLine]) => {
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denominator = direction.x * ey - direction.y * ex;
+    if (Math.abs(denominator) < 1e-12) return;
+
+    const ax = a.x - origin.x;
+    const ay = a.y - origin.y;
+    const t = (ax * ey - ay * ex) / denominator;
+    const s = (ax * direction.y - ay * direction.x) / denominator;
+    if (t <= 0 || s < 0 || s > 1) return;
+
+    if (!best || t < best.t) {
+      best = {
+        t,
+        point: { x: a.x + s * ex, y: a.y + s * ey },
+        wavelength: isPurpleLine ? null : a.wavelength + s * (b.wavelength - a.wavelength)
+      };
+    }
+  });
+
+  return best;
+}
+
+// Dominant (or complementary) wavelength and purities of a chromaticity relative to a white point
+export function calculateDominantWavelength(
+  x: number,
+  y: number,
+  white: ChromaticityPoint,
+  observer: StandardObserver = 'CIE1931_2'
+): DominantWavelengthResult | null {
+  const locus = getSpectralLocus(observer).filter(({ wavelength }) => wavelength <= DOMINANT_WAVELENGTH_MAX);
+  const direction = { x: x - white.x, y: y - white.y };
+  const distance = Math.hypot(direction.x, direction.y);
+  if (distance < 1e-9) return null;
+
+  const hit = intersectBoundary(white, direction, locus);
+  if (!hit) return null;
+
+  const excitationPurity = Math.min(1, distance / Math.hypot(hit.point.x - white.x, hit.point.y - white.y));
+  const colorimetricPurity = excitationPurity * (hit.point.y / y);
+
+  // On the purple line: report the complementary wavelength instead
+  if (hit.wavelength === null) {
+    const opposite = intersectBoundary(white, { x: -direction.x, y: -direction.y }, locus);
+    return {
+      wavelength: opposite?.wavelength ?? null,
+      complementary: true,
+      boundaryPoint: hit.point,
+      complementaryPoint: opposite?.point ?? null,
+      excitationPurity,
+      colorimetricPurity
+    };
+  }
+
+  return {
+    wavelength: hit.wavelength,
+    complementary: false,
+    boundaryPoint: hit.point,
+    complementaryPoint: null,
+    excitationPurity,
+    colorimetricPurity
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { TRANSFER_FUNCTIONS, TransferFunctionName, getTransferFunction } from './transferFunctions';
+
+// BT.2020 linear segment threshold, as used by CSS rec2020
+const REC2020_BETA = 0.018053968510807;
+
+// Linear-segment thresholds (in linear light) where a curve switches branch
+const BREAKPOINTS: Partial<Record<TransferFunctionName, number>> = {
+  sRGB: 0.0031308,
+  Rec2020: REC2020_BETA,
+  ProPhoto: 1 / 512
+};
+
+const NAMES = Object.keys(TRANSFER_FUNCTIONS) as TransferFunctionName[];
+
+describe.each(NAMES)('%s transfer function', (name) => {
+  const { encode, decode } = getTransferFunction(name);
+  const breakpoint = BREAKPOINTS[name];
+  const samples = [0, 1e-4, 0.01, 0.18, 0.5, 1, -0.01, -0.5, -1, 1.5];
+  if (breakpoint !== undefined) samples.push(breakpoint, breakpoint * (1 - 1e-9), breakpoint * (1 + 1e-9));
+
+  // sRGB's published thresholds (0.0031308, 0.04045) disagree by a few 1e-9 around the breakpoint
+  it.each(samples)('round trips %f through encode and decode', (value) => {
+    expect(decode(encode(value))).toBeCloseTo(value, 8);
+    expect(encode(decode(value))).toBeCloseTo(value, 8);
+  });
+
+  it('is odd-symmetric, keeps 0 and 1 fixed and increases', () => {
+    expect(encode(0)).toBe(0);
+    expect(encode(1)).toBeCloseTo(1, 12);
+    expect(decode(1)).toBeCloseTo(1, 12);
+    [0.001, 0.2, 0.7].forEach((value) => {
+      expect(encode(-value)).toBe(-encode(value));
+      expect(decode(-value)).toBe(-decode(value));
+    });
+    for (let value = 0; value < 1; value += 0.01) {
+      expect(encode(value + 0.01)).toBeGreaterThan(encode(value));
+    }
+  });
+
+  if (breakpoint !== undefined) {
+    it('is continuous across its breakpoint', () => {
+      expect(encode(breakpoint * (1 - 1e-9))).toBeCloseTo(encode(breakpoint * (1 + 1e-9)), 6);
+      const encodedBreakpoint = encode(breakpoint);
+      expect(decode(encodedBreakpoint * (1 - 1e-9))).toBeCloseTo(decode(encodedBreakpoint * (1 + 1e-9)), 6);
+    });
+  }
+});
+
+describe('transfer function anchors', () => {
+  it('decodes sRGB 0.5 to 0.21404 and encodes the breakpoint to 0.04045', () => {
+    expect(TRANSFER_FUNCTIONS.sRGB.decode(0.5)).toBeCloseTo(0.21404, 5);
+    expect(TRANSFER_FUNCTIONS.sRGB.encode(0.0031308)).toBeCloseTo(0.04045, 5);
+  });
+
+  it('meets the BT.2020 linear segment at 4.5 × β', () => {
+    expect(TRANSFER_FUNCTIONS.Rec2020.encode(REC2020_BETA)).toBeCloseTo(4.5 * REC2020_BETA, 10);
+    expect(TRANSFER_FUNCTIONS.Rec2020.decode(4.5 * REC2020_BETA)).toBeCloseTo(REC2020_BETA, 10);
+  });
+
+  it('uses the 1/512 → 1/32 ProPhoto linear segment', () => {
+    expect(TRANSFER_FUNCTIONS.ProPhoto.encode(1 / 512)).toBeCloseTo(1 / 32, 12);
+  });
+
+  it.each([
+    ['gamma22', 2.2],
+    ['gamma26', 2.6],
+    ['BT1886', 2.4],
+    ['AdobeRGB', 563 / 256]
+  ] as [TransferFunctionName, number][])('decodes %s as a pure power law', (name, exponent) => {
+    expect(TRANSFER_FUNCTIONS[name].decode(0.5)).toBeCloseTo(Math.pow(0.5, exponent), 12);
+  });
+});
@@ -0,0 +1,82 @@
+// Transfer functions (encoded <-> linear light) for RGB color spaces
+export type TransferFunctionName =
+  | 'sRGB'
+  | 'gamma22'
+  | 'gamma26'
+  | 'BT1886'
+  | 'Rec2020'
+  | 'AdobeRGB'
+  | 'ProPhoto'
+  | 'linear';
+
+export interface TransferFunction {
+  label: string;
+  encode: (linear: number) => number; // linear 0-1 -> encoded 0-1
+  decode: (encoded: number) => number; // encoded 0-1 -> linear 0-1
+}
+
+// Extend a curve defined on [0, ∞) to negative values by odd symmetry
+function signed(curve: (value: number) => number): (value: number) => number {
+  return (value) => (value < 0 ? -curve(-value) : curve(value));
+}
+
+// Pure power-law curve
+function gamma(exponent: number, label: string): TransferFunction {
+  return {
+    label,
+    encode: signed((value) => Math.pow(value, 1 / exponent)),
+    decode: signed((value) => Math.pow(value, exponent))
+  };
+}
+
+// BT.2020 OETF constants (as used by CSS rec2020)
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+// ProPhoto (ROMM) linear segment threshold
+const PROPHOTO_ET = 1 / 512;
+
+export const TRANSFER_FUNCTIONS: Record<TransferFunctionName, TransferFunction> = {
+  sRGB: {
+    label: 'sRGB',
+    encode: signed((value) =>
+      value <= 0.0031308 ? 12.92 * value : 1.055 * Math.pow(value, 1 / 2.4) - 0.055
+    ),
+    decode: signed((value) =>
+      value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+    )
+  },
+  gamma22: gamma(2.2, 'Gamma 2.2'),
+  gamma26: gamma(2.6, 'Gamma 2.6'),
+  // BT.1886 with Lw = 1 and Lb = 0 reduces to a 2.4 power law
+  BT1886: gamma(2.4, 'BT.1886'),
+  Rec2020: {
+    label: 'BT.2020',
+    encode: signed((value) =>
+      value < REC2020_BETA
+        ? 4.5 * value
+        : REC2020_ALPHA * Math.pow(value, 0.45) - (REC2020_ALPHA - 1)
+    ),
+    decode: signed((value) =>
+      value < REC2020_BETA * 4.5
+        ? value / 4.5
+        : Math.pow((value + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+    )
+  },
+  AdobeRGB: gamma(563 / 256, 'Adobe RGB'),
+  ProPhoto: {
+    label: 'ProPhoto',
+    encode: signed((value) => (value < PROPHOTO_ET ? 16 * value : Math.pow(value, 1 / 1.8))),
+    decode: signed((value) => (value < 16 * PROPHOTO_ET ? value / 16 : Math.pow(value, 1.8)))
+  },
+  linear: {
+    label: 'Linear',
+    encode: (value) => value,
+    decode: (value) => value
+  }
+};
+
+// Look up a transfer function by name
+export function getTransferFunction(name: TransferFunctionName): TransferFunction {
+  return TRANSFER_FUNCTIONS[name];
+}
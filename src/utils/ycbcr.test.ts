@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  YCbCrMatrix,
+  RGBToYCbCr,
+  YCbCrToRGB,
+  XYZToYCbCr,
+  YCbCrToXYZ,
+  YCBCR_MATRICES,
+  quantizeYCbCr,
+  dequantizeYCbCr,
+  checkYCbCrCodeValues
+} from './ycbcr';
+import { D65_WHITE_XYZ, encodedRGBToXYZ } from './colorConversions';
+
+const MATRICES: YCbCrMatrix[] = ['BT601', 'BT709', 'BT2020'];
+
+// 100% colour bars in 8-bit limited range: R'G'B', then Y' Cb Cr codes per matrix
+const COLOR_BARS: [string, [number, number, number], Record<YCbCrMatrix, [number, number, number]>][] = [
+  ['white', [1, 1, 1], { BT601: [235, 128, 128], BT709: [235, 128, 128], BT2020: [235, 128, 128] }],
+  ['yellow', [1, 1, 0], { BT601: [210, 16, 146], BT709: [219, 16, 138], BT2020: [222, 16, 137] }],
+  ['cyan', [0, 1, 1], { BT601: [170, 166, 16], BT709: [188, 154, 16], BT2020: [177, 159, 16] }],
+  ['green', [0, 1, 0], { BT601: [145, 54, 34], BT709: [173, 42, 26], BT2020: [164, 47, 25] }],
+  ['magenta', [1, 0, 1], { BT601: [106, 202, 222], BT709: [78, 214, 230], BT2020: [87, 209, 231] }],
+  ['red', [1, 0, 0], { BT601: [81, 90, 240], BT709: [63, 102, 240], BT2020: [74, 97, 240] }],
+  ['blue', [0, 0, 1], { BT601: [41, 240, 110], BT709: [32, 240, 118], BT2020: [29, 240, 119] }],
+  ['black', [0, 0, 0], { BT601: [16, 128, 128], BT709: [16, 128, 128], BT2020: [16, 128, 128] }]
+];
+
+describe('RGBToYCbCr', () => {
+  describe.each(MATRICES)('%s', (matrix) => {
+    it.each(COLOR_BARS)('gives the 8-bit colour bar codes for %s', (_name, [r, g, b], codes) => {
+      const quantized = quantizeYCbCr(RGBToYCbCr({ r, g, b }, matrix), 8, 'narrow');
+      expect([quantized.y, quantized.cb, quantized.cr]).toEqual(codes[matrix]);
+    });
+
+    it.each(COLOR_BARS)('inverts exactly for %s', (_name, [r, g, b]) => {
+      const rgb = YCbCrToRGB(RGBToYCbCr({ r, g, b }, matrix), matrix);
+      expect(rgb.r).toBeCloseTo(r, 12);
+      expect(rgb.g).toBeCloseTo(g, 12);
+      expect(rgb.b).toBeCloseTo(b, 12);
+    });
+  });
+});
+
+describe('XYZToYCbCr', () => {
+  it.each(MATRICES)('encodes the primaries of its own space to Y\' = Kr, Kb (%s)', (matrix) => {
+    const { kr, kb, colorSpace } = YCBCR_MATRICES[matrix];
+    expect(XYZToYCbCr(encodedRGBToXYZ({ r: 255, g: 0, b: 0 }, colorSpace), matrix).y).toBeCloseTo(kr, 6);
+    expect(XYZToYCbCr(encodedRGBToXYZ({ r: 0, g: 0, b: 255 }, colorSpace), matrix).y).toBeCloseTo(kb, 6);
+  });
+
+  it.each(MATRICES)('encodes neutrals through the BT.1886 EOTF inverse (%s)', (matrix) => {
+    const grey = XYZToYCbCr({ x: D65_WHITE_XYZ.x * 0.18, y: 0.18, z: D65_WHITE_XYZ.z * 0.18 }, matrix);
+    expect(grey.y).toBeCloseTo(Math.pow(0.18, 1 / 2.4), 10);
+    expect(grey.cb).toBeCloseTo(0, 10);
+    expect(grey.cr).toBeCloseTo(0, 10);
+    expect(XYZToYCbCr(D65_WHITE_XYZ, matrix).y).toBeCloseTo(1, 10);
+  });
+
+  it.each(MATRICES)('round trips through XYZ (%s)', (matrix) => {
+    const xyz = { x: 0.3, y: 0.25, z: 0.2 };
+    const back = YCbCrToXYZ(XYZToYCbCr(xyz, matrix), matrix);
+    expect(back.x).toBeCloseTo(xyz.x, 10);
+    expect(back.y).toBeCloseTo(xyz.y, 10);
+    expect(back.z).toBeCloseTo(xyz.z, 10);
+  });
+});
+
+describe('quantizeYCbCr', () => {
+  it('scales limited range by bit depth', () => {
+    const white = RGBToYCbCr({ r: 1, g: 1, b: 1 });
+    expect(quantizeYCbCr(white, 10, 'narrow')).toEqual({ y: 940, cb: 512, cr: 512 });
+    expect(quantizeYCbCr(white, 12, 'narrow')).toEqual({ y: 3760, cb: 2048, cr: 2048 });
+  });
+
+  it('uses the whole code range in full range', () => {
+    expect(quantizeYCbCr({ y: 1, cb: 0, cr: 0 }, 10, 'full')).toEqual({ y: 1023, cb: 512, cr: 512 });
+    expect(quantizeYCbCr({ y: 0, cb: -0.5, cr: 0.5 }, 8, 'full')).toEqual({ y: 0, cb: 1, cr: 255 });
+  });
+
+  it.each(['narrow', 'full'] as const)('dequantizes back to within half a code (%s)', (range) => {
+    const ycbcr = { y: 0.4, cb: -0.2, cr: 0.3 };
+    const back = dequantizeYCbCr(quantizeYCbCr(ycbcr, 10, range), 10, range);
+    expect(Math.abs(back.y - ycbcr.y)).toBeLessThan(1 / 876);
+    expect(Math.abs(back.cb - ycbcr.cb)).toBeLessThan(1 / 896);
+  });
+});
+
+describe('checkYCbCrCodeValues', () => {
+  it('passes legal colour bars', () => {
+    COLOR_BARS.forEach(([, [r, g, b]]) => {
+      const codes = quantizeYCbCr(RGBToYCbCr({ r, g, b }), 10, 'narrow');
+      expect(checkYCbCrCodeValues(codes, 10, 'narrow')).toEqual({
+        superWhite: false,
+        subBlack: false,
+        chromaExcursion: false,
+        reservedCode: false,
+        outOfGamut: false
+      });
+    });
+  });
+
+  it('flags super-white, sub-black, chroma excursions and reserved codes', () => {
+    expect(checkYCbCrCodeValues({ y: 1000, cb: 512, cr: 512 }, 10).superWhite).toBe(true);
+    expect(checkYCbCrCodeValues({ y: 40, cb: 512, cr: 512 }, 10).subBlack).toBe(true);
+    expect(checkYCbCrCodeValues({ y: 500, cb: 970, cr: 512 }, 10).chromaExcursion).toBe(true);
+    expect(checkYCbCrCodeValues({ y: 1020, cb: 512, cr: 512 }, 10).reservedCode).toBe(true);
+    expect(checkYCbCrCodeValues({ y: 2, cb: 512, cr: 512 }, 10).reservedCode).toBe(true);
+  });
+
+  it('flags legal codes that decode outside the R\'G\'B\' cube', () => {
+    expect(checkYCbCrCodeValues({ y: 940, cb: 960, cr: 960 }, 10).outOfGamut).toBe(true);
+  });
+});
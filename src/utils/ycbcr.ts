@@ -0,0 +1,163 @@
+// Y'CbCr encoding (BT.601, BT.709, BT.2020 non-constant luminance) with video code values
+import { XYZColor, RGBColor, ColorSpace, XYZToRGB, RGBToXYZ } from './colorConversions';
+import { CodeValueRange } from './hdr';
+import { getTransferFunction } from './transferFunctions';
+
+export type YCbCrMatrix = 'BT601' | 'BT709' | 'BT2020';
+
+export type YCbCrBitDepth = 8 | 10 | 12;
+
+// Normalised Y'CbCr: Y' 0-1, Cb/Cr -0.5 to 0.5
+export interface YCbCrColor {
+  y: number;
+  cb: number;
+  cr: number;
+}
+
+// Integer code values
+export interface YCbCrCodeValues {
+  y: number;
+  cb: number;
+  cr: number;
+}
+
+export interface YCbCrFlags {
+  superWhite: boolean; // Y' above nominal peak (235 at 8-bit)
+  subBlack: boolean; // Y' below nominal black (16 at 8-bit)
+  chromaExcursion: boolean; // Cb/Cr outside 16-240 at 8-bit
+  reservedCode: boolean; // limited-range codes reserved for timing references
+  outOfGamut: boolean; // decodes to R'G'B' outside 0-1
+}
+
+export interface YCbCrMatrixDefinition {
+  label: string;
+  kr: number;
+  kb: number;
+  colorSpace: ColorSpace; // primaries the coefficients belong to
+}
+
+// R'G'B' is display-referred for every matrix: linear light goes through the inverse of the
+// BT.1886 EOTF (a 2.4 power with Lw = 1, Lb = 0), which BT.709 and BT.2020 both name as the
+// reference display. The registry's Rec2020 space encodes with the camera OETF instead, so only
+// the primaries are taken from it.
+export const YCBCR_TRANSFER = getTransferFunction('BT1886');
+
+export const YCBCR_MATRICES: Record<YCbCrMatrix, YCbCrMatrixDefinition> = {
+  BT601: { label: 'BT.601', kr: 0.299, kb: 0.114, colorSpace: 'SMPTE-C' },
+  BT709: { label: 'BT.709', kr: 0.2126, kb: 0.0722, colorSpace: 'Rec709' },
+  BT2020: { label: 'BT.2020 NCL', kr: 0.2627, kb: 0.0593, colorSpace: 'Rec2020' }
+};
+
+export const YCBCR_BIT_DEPTHS: YCbCrBitDepth[] = [8, 10, 12];
+
+// Encoded R'G'B' (0-1) to Y'CbCr
+export function RGBToYCbCr(rgb: RGBColor, matrix: YCbCrMatrix = 'BT709'): YCbCrColor {
+  const { kr, kb } = YCBCR_MATRICES[matrix];
+  const y = kr * rgb.r + (1 - kr - kb) * rgb.g + kb * rgb.b;
+
+  return {
+    y,
+    cb: (rgb.b - y) / (2 * (1 - kb)),
+    cr: (rgb.r - y) / (2 * (1 - kr))
+  };
+}
+
+// Y'CbCr to encoded R'G'B' (0-1, unclamped)
+export function YCbCrToRGB(ycbcr: YCbCrColor, matrix: YCbCrMatrix = 'BT709'): RGBColor {
+  const { kr, kb } = YCBCR_MATRICES[matrix];
+  const r = ycbcr.y + 2 * (1 - kr) * ycbcr.cr;
+  const b = ycbcr.y + 2 * (1 - kb) * ycbcr.cb;
+  const g = (ycbcr.y - kr * r - kb * b) / (1 - kr - kb);
+
+  return { r, g, b };
+}
+
+// Y'CbCr of an XYZ color, in the matrix's own primaries and encoded for a BT.1886 display
+export function XYZToYCbCr(xyz: XYZColor, matrix: YCbCrMatrix = 'BT709'): YCbCrColor {
+  const { r, g, b } = XYZToRGB(xyz, YCBCR_MATRICES[matrix].colorSpace);
+  const { encode } = YCBCR_TRANSFER;
+  return RGBToYCbCr({ r: encode(r), g: encode(g), b: encode(b) }, matrix);
+}
+
+// XYZ of a Y'CbCr value, decoded through the BT.1886 EOTF and the matrix's own primaries
+export function YCbCrToXYZ(ycbcr: YCbCrColor, matrix: YCbCrMatrix = 'BT709'): XYZColor {
+  const { r, g, b } = YCbCrToRGB(ycbcr, matrix);
+  const { decode } = YCBCR_TRANSFER;
+  return RGBToXYZ({ r: decode(r), g: decode(g), b: decode(b) }, YCBCR_MATRICES[matrix].colorSpace);
+}
+
+// Quantise normalised Y'CbCr to code values (BT.601/709/2020 limited, or full range)
+export function quantizeYCbCr(
+  ycbcr: YCbCrColor,
+  bitDepth: YCbCrBitDepth = 10,
+  range: CodeValueRange = 'narrow'
+): YCbCrCodeValues {
+  const max = 2 ** bitDepth - 1;
+  const clampCode = (value: number) => Math.max(0, Math.min(max, Math.round(value)));
+
+  if (range === 'full') {
+    return {
+      y: clampCode(ycbcr.y * max),
+      cb: clampCode(ycbcr.cb * max + 2 ** (bitDepth - 1)),
+      cr: clampCode(ycbcr.cr * max + 2 ** (bitDepth - 1))
+    };
+  }
+
+  const scale = 2 ** (bitDepth - 8);
+  return {
+    y: clampCode((219 * ycbcr.y + 16) * scale),
+    cb: clampCode((224 * ycbcr.cb + 128) * scale),
+    cr: clampCode((224 * ycbcr.cr + 128) * scale)
+  };
+}
+
+// Code values back to normalised Y'CbCr
+export function dequantizeYCbCr(
+  codes: YCbCrCodeValues,
+  bitDepth: YCbCrBitDepth = 10,
+  range: CodeValueRange = 'narrow'
+): YCbCrColor {
+  if (range === 'full') {
+    const max = 2 ** bitDepth - 1;
+    return {
+      y: codes.y / max,
+      cb: (codes.cb - 2 ** (bitDepth - 1)) / max,
+      cr: (codes.cr - 2 ** (bitDepth - 1)) / max
+    };
+  }
+
+  const scale = 2 ** (bitDepth - 8);
+  return {
+    y: (codes.y / scale - 16) / 219,
+    cb: (codes.cb / scale - 128) / 224,
+    cr: (codes.cr / scale - 128) / 224
+  };
+}
+
+// Flag code values outside the legal video range or outside the R'G'B' cube
+export function checkYCbCrCodeValues(
+  codes: YCbCrCodeValues,
+  bitDepth: YCbCrBitDepth = 10,
+  range: CodeValueRange = 'narrow',
+  matrix: YCbCrMatrix = 'BT709'
+): YCbCrFlags {
+  const scale = 2 ** (bitDepth - 8);
+  const rgb = YCbCrToRGB(dequantizeYCbCr(codes, bitDepth, range), matrix);
+  // Rounding Y' and Cr/Cb can push edge colors about 1.5 codes past the R'G'B' cube
+  const codeStep = range === 'full' ? 1 / (2 ** bitDepth - 1) : 1 / (219 * scale);
+  const tolerance = 2 * codeStep;
+  const outOfGamut = [rgb.r, rgb.g, rgb.b].some((value) => value < -tolerance || value > 1 + tolerance);
+
+  if (range === 'full') {
+    return { superWhite: false, subBlack: false, chromaExcursion: false, reservedCode: false, outOfGamut };
+  }
+
+  const values = [codes.y, codes.cb, codes.cr];
+  return {
+    superWhite: codes.y > 235 * scale,
+    subBlack: codes.y < 16 * scale,
+    chromaExcursion: [codes.cb, codes.cr].some((value) => value < 16 * scale || value > 240 * scale),
+    reservedCode: values.some((value) => value < scale || value >= 255 * scale),
+    outOfGamut
+  };
+}